@@ -1,14 +1,14 @@
 import { defineComponent, ref, watch, h, type PropType, type VNode } from 'vue';
 import { useScalekitAuth } from './useScalekitAuth';
 import { hasAuthParams, hasAuthError, getAuthError } from './utils/auth-params';
-import { CallbackError } from './types';
+import { CallbackError, type RedirectLoginResult } from './types';
 
 /**
  * Props for the ScalekitCallback component
  */
 export interface ScalekitCallbackProps {
-  /** Called when authentication succeeds */
-  onSuccess?: () => void;
+  /** Called when authentication succeeds, with the user and restored app state */
+  onSuccess?: (result: RedirectLoginResult) => void;
 
   /** Called when authentication fails */
   onError?: (error: Error) => void;
@@ -54,8 +54,8 @@ function DefaultError(error: Error): VNode {
  *
  * const router = useRouter();
  *
- * function handleSuccess() {
- *   router.push('/dashboard');
+ * function handleSuccess({ appState }) {
+ *   router.push(appState?.returnTo ?? '/dashboard');
  * }
  *
  * function handleError(error) {
@@ -84,7 +84,7 @@ export const ScalekitCallback = defineComponent({
 
   props: {
     onSuccess: {
-      type: Function as PropType<() => void>,
+      type: Function as PropType<(result: RedirectLoginResult) => void>,
       default: undefined,
     },
     onError: {
@@ -93,7 +93,10 @@ export const ScalekitCallback = defineComponent({
     },
   },
 
-  emits: ['success', 'error'],
+  emits: {
+    success: (_result: RedirectLoginResult) => true,
+    error: (_error: Error) => true,
+  },
 
   setup(props, { emit, slots }) {
     const { handleRedirectCallback, isLoading: authLoading } = useScalekitAuth();
@@ -133,10 +136,10 @@ export const ScalekitCallback = defineComponent({
       }
 
       try {
-        await handleRedirectCallback();
+        const result = await handleRedirectCallback();
         processed.value = true;
-        props.onSuccess?.();
-        emit('success');
+        props.onSuccess?.(result);
+        emit('success', result);
       } catch (err) {
         const callbackError =
           err instanceof Error ? err : new CallbackError('Unknown error during callback');
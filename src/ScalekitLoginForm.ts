@@ -0,0 +1,173 @@
+import { defineComponent, ref, h, type PropType, type VNode } from 'vue';
+import { useScalekitAuth } from './useScalekitAuth';
+import type { LoginWithEmailOptions } from './types';
+
+/**
+ * Props for the ScalekitLoginForm component
+ */
+export interface ScalekitLoginFormProps {
+  /** Options passed to loginWithEmail, e.g. `returnTo` or a custom resolver */
+  loginOptions?: LoginWithEmailOptions;
+
+  /** Label of the email field */
+  label?: string;
+
+  /** Placeholder of the email field */
+  placeholder?: string;
+
+  /** Text of the submit button */
+  submitText?: string;
+}
+
+/**
+ * Slot props of the default slot
+ */
+export interface ScalekitLoginFormSlotProps {
+  /** The entered email */
+  email: string;
+
+  /** Updates the entered email */
+  setEmail: (email: string) => void;
+
+  /** Starts the login */
+  submit: () => Promise<void>;
+
+  /** Whether the login is being started */
+  submitting: boolean;
+
+  /** The error from the last attempt, if any */
+  error: Error | null;
+}
+
+/**
+ * Default form content
+ */
+function DefaultForm(
+  props: Required<Omit<ScalekitLoginFormProps, 'loginOptions'>>,
+  slotProps: ScalekitLoginFormSlotProps
+): VNode[] {
+  const { email, setEmail, submitting, error } = slotProps;
+
+  return [
+    h('label', { style: { display: 'block' } }, [
+      h('span', {}, props.label),
+      h('input', {
+        type: 'email',
+        name: 'email',
+        autocomplete: 'email',
+        required: true,
+        placeholder: props.placeholder,
+        value: email,
+        disabled: submitting,
+        onInput: (event: Event) => setEmail((event.target as HTMLInputElement).value),
+      }),
+    ]),
+    h('button', { type: 'submit', disabled: submitting }, props.submitText),
+    error ? h('p', { role: 'alert', style: { color: 'red' } }, error.message) : null,
+  ].filter((node): node is VNode => node !== null);
+}
+
+/**
+ * Email-first login form.
+ *
+ * Submitting calls `loginWithEmail`, which routes the user to the SSO
+ * connection of their email domain (see the `resolveConnection` plugin option)
+ * or to the hosted login page with the email pre-filled.
+ *
+ * @example
+ * ```vue
+ * <script setup>
+ * import { ScalekitLoginForm } from '@scalekit/vue-sdk';
+ * </script>
+ *
+ * <template>
+ *   <ScalekitLoginForm :login-options="{ returnTo: '/dashboard' }" submit-text="Sign in" />
+ *
+ *   <!-- Or bring your own markup -->
+ *   <ScalekitLoginForm v-slot="{ email, setEmail, submitting, error }">
+ *     <input :value="email" @input="setEmail($event.target.value)" />
+ *     <button :disabled="submitting">Continue</button>
+ *     <p v-if="error">{{ error.message }}</p>
+ *   </ScalekitLoginForm>
+ * </template>
+ * ```
+ */
+export const ScalekitLoginForm = defineComponent({
+  name: 'ScalekitLoginForm',
+
+  props: {
+    loginOptions: {
+      type: Object as PropType<LoginWithEmailOptions>,
+      default: undefined,
+    },
+    label: {
+      type: String,
+      default: 'Email',
+    },
+    placeholder: {
+      type: String,
+      default: 'you@company.com',
+    },
+    submitText: {
+      type: String,
+      default: 'Continue',
+    },
+  },
+
+  emits: {
+    submit: (_email: string) => true,
+    error: (_error: Error) => true,
+  },
+
+  setup(props, { emit, slots }) {
+    const { loginWithEmail } = useScalekitAuth();
+    const email = ref('');
+    const submitting = ref(false);
+    const error = ref<Error | null>(null);
+
+    async function submit() {
+      if (submitting.value) {
+        return;
+      }
+
+      submitting.value = true;
+      error.value = null;
+      emit('submit', email.value);
+
+      try {
+        await loginWithEmail(email.value, props.loginOptions);
+      } catch (err) {
+        const loginError = err instanceof Error ? err : new Error('Login failed');
+        error.value = loginError;
+        emit('error', loginError);
+      } finally {
+        submitting.value = false;
+      }
+    }
+
+    return () => {
+      const slotProps: ScalekitLoginFormSlotProps = {
+        email: email.value,
+        setEmail: (value) => {
+          email.value = value;
+        },
+        submit,
+        submitting: submitting.value,
+        error: error.value,
+      };
+
+      return h(
+        'form',
+        {
+          onSubmit: (event: Event) => {
+            event.preventDefault();
+            submit();
+          },
+        },
+        slots.default ? slots.default(slotProps) : DefaultForm(props, slotProps)
+      );
+    };
+  },
+});
+
+export type ScalekitLoginFormInstance = InstanceType<typeof ScalekitLoginForm>;
@@ -0,0 +1,116 @@
+import type { AxiosError, AxiosInstance, InternalAxiosRequestConfig } from 'axios';
+import {
+  createRequestMatcher,
+  createTokenRefresher,
+  createUnauthenticatedHandler,
+  isInvalidTokenChallenge,
+  isNotAuthenticatedError,
+  parseBearerToken,
+  type AuthFetchClient,
+  type RequestAuthOptions,
+} from '../utils/request-auth';
+
+/**
+ * Options for the axios adapter
+ */
+export type AxiosAuthOptions = RequestAuthOptions;
+
+/**
+ * Request config tagged once it has been replayed after a refresh
+ */
+type RetriableRequestConfig = InternalAxiosRequestConfig & { _scalekitRetry?: boolean };
+
+/**
+ * Installs Scalekit interceptors on an axios instance.
+ *
+ * The request interceptor attaches `Authorization: Bearer <token>` to
+ * requests for allowed URLs. The response interceptor refreshes the token
+ * once on a 401 with `WWW-Authenticate: ... invalid_token`, like authFetch,
+ * and replays the request; concurrent 401s share a single refresh. If the user is no longer authenticated, login is triggered and
+ * the original error is rethrown.
+ *
+ * @example
+ * ```ts
+ * import axios from 'axios';
+ * import { installAxiosAuth } from '@scalekit-sdk/vue/axios';
+ *
+ * const api = axios.create({ baseURL: 'https://api.example.com' });
+ * const eject = installAxiosAuth(api, auth, {
+ *   allowedOrigins: ['https://api.example.com'],
+ * });
+ * ```
+ *
+ * @param instance The axios instance to install the interceptors on
+ * @param auth The Scalekit auth instance (or the result of useScalekitAuth)
+ * @param options Configuration options
+ * @returns A function that removes the interceptors
+ */
+export function installAxiosAuth(
+  instance: AxiosInstance,
+  auth: AuthFetchClient,
+  options: AxiosAuthOptions = {}
+): () => void {
+  const matchRequest = createRequestMatcher(options);
+  const refreshToken = createTokenRefresher(auth);
+  const handleUnauthenticated = createUnauthenticatedHandler(auth, options.onUnauthenticated);
+
+  const requestInterceptor = instance.interceptors.request.use(async (config) => {
+    const target = matchRequest(instance.getUri(config));
+    if (!target) {
+      return config;
+    }
+
+    try {
+      const token = await auth.getAccessToken({ audience: target.audience });
+      config.headers.set('Authorization', `Bearer ${token}`);
+    } catch (error) {
+      // Let the API decide whether the request needs authentication
+      if (!isNotAuthenticatedError(error)) {
+        throw error;
+      }
+    }
+    return config;
+  });
+
+  const responseInterceptor = instance.interceptors.response.use(
+    undefined,
+    async (error: AxiosError) => {
+      const config = error.config as RetriableRequestConfig | undefined;
+      const failedToken = parseBearerToken(config?.headers.get('Authorization'));
+
+      if (
+        error.response?.status !== 401 ||
+        !isInvalidTokenChallenge(error.response.headers['www-authenticate']) ||
+        !config ||
+        !failedToken ||
+        config._scalekitRetry
+      ) {
+        throw error;
+      }
+
+      const target = matchRequest(instance.getUri(config));
+      let token: string;
+
+      try {
+        token = await refreshToken(failedToken, target?.audience);
+      } catch (refreshError) {
+        if (isNotAuthenticatedError(refreshError)) {
+          await handleUnauthenticated(refreshError);
+          throw error;
+        }
+        throw refreshError;
+      }
+
+      config._scalekitRetry = true;
+      config.headers.set('Authorization', `Bearer ${token}`);
+      return instance.request(config);
+    }
+  );
+
+  return () => {
+    instance.interceptors.request.eject(requestInterceptor);
+    instance.interceptors.response.eject(responseInterceptor);
+  };
+}
+
+export type { AuthFetchClient, RequestAuthOptions };
@@ -0,0 +1,118 @@
+import type { FetchContext, FetchOptions } from 'ofetch';
+import {
+  createRequestMatcher,
+  createTokenRefresher,
+  createUnauthenticatedHandler,
+  isInvalidTokenChallenge,
+  isNotAuthenticatedError,
+  parseBearerToken,
+  type AuthFetchClient,
+  type RequestAuthOptions,
+} from '../utils/request-auth';
+
+/**
+ * Options for the ofetch adapter
+ */
+export type OfetchAuthOptions = RequestAuthOptions;
+
+/**
+ * Resolves the full URL of an ofetch request, applying `baseURL` to relative paths
+ */
+function getRequestUrl(context: FetchContext): string {
+  const { request, options } = context;
+  if (typeof request !== 'string') {
+    return request.url;
+  }
+  if (!options.baseURL || /^[a-z][a-z\d+.-]*:/i.test(request)) {
+    return request;
+  }
+  return `${options.baseURL.replace(/\/+$/, '')}/${request.replace(/^\/+/, '')}`;
+}
+
+/**
+ * Creates ofetch options with Scalekit hooks, for use with `ofetch.create()`.
+ *
+ * `onRequest` attaches `Authorization: Bearer <token>` to requests for allowed
+ * URLs. `onResponseError` refreshes the token on a 401 with
+ * `WWW-Authenticate: ... invalid_token`, like authFetch, so that ofetch's retry
+ * replays the request with the new token; concurrent 401s share a single
+ * refresh. The returned options retry once, on 401 only; spread your own
+ * `retry`/`retryStatusCodes` after them to change that.
+ *
+ * @example
+ * ```ts
+ * import { ofetch } from 'ofetch';
+ * import { createOfetchAuthOptions } from '@scalekit-sdk/vue/ofetch';
+ *
+ * const api = ofetch.create({
+ *   baseURL: 'https://api.example.com',
+ *   ...createOfetchAuthOptions(auth, {
+ *     allowedOrigins: ['https://api.example.com'],
+ *   }),
+ * });
+ * ```
+ *
+ * @param auth The Scalekit auth instance (or the result of useScalekitAuth)
+ * @param options Configuration options
+ * @returns Options to pass to `ofetch.create()`
+ */
+export function createOfetchAuthOptions(
+  auth: AuthFetchClient,
+  options: OfetchAuthOptions = {}
+): FetchOptions {
+  const matchRequest = createRequestMatcher(options);
+  const refreshToken = createTokenRefresher(auth);
+  const handleUnauthenticated = createUnauthenticatedHandler(auth, options.onUnauthenticated);
+
+  return {
+    retry: 1,
+    retryStatusCodes: [401],
+
+    async onRequest(context) {
+      const target = matchRequest(getRequestUrl(context));
+      if (!target) {
+        return;
+      }
+
+      try {
+        const token = await auth.getAccessToken({ audience: target.audience });
+        context.options.headers.set('Authorization', `Bearer ${token}`);
+      } catch (error) {
+        // Let the API decide whether the request needs authentication
+        if (!isNotAuthenticatedError(error)) {
+          throw error;
+        }
+      }
+    },
+
+    async onResponseError(context) {
+      // A replayed request has no retries left and is not refreshed again
+      if (context.response.status !== 401 || !context.options.retry) {
+        return;
+      }
+
+      const failedToken = parseBearerToken(context.options.headers.get('Authorization'));
+      if (
+        !failedToken ||
+        !isInvalidTokenChallenge(context.response.headers.get('WWW-Authenticate'))
+      ) {
+        context.options.retry = false;
+        return;
+      }
+
+      try {
+        // The replayed request picks up the refreshed token in onRequest
+        await refreshToken(failedToken, matchRequest(getRequestUrl(context))?.audience);
+      } catch (error) {
+        context.options.retry = false;
+        if (isNotAuthenticatedError(error)) {
+          await handleUnauthenticated(error);
+          return;
+        }
+        throw error;
+      }
+    },
+  };
+}
+
+export type { AuthFetchClient, RequestAuthOptions };
@@ -0,0 +1,110 @@
+import {
+  createRequestMatcher,
+  createTokenRefresher,
+  createUnauthenticatedHandler,
+  isInvalidTokenChallenge,
+  isNotAuthenticatedError,
+  type AuthFetchClient,
+  type RequestAuthOptions,
+} from './utils/request-auth';
+
+export type { AuthFetchClient };
+
+/**
+ * A fetch function that injects the access token for allowed origins
+ */
+export type AuthFetch = (input: RequestInfo | URL, init?: RequestInit) => Promise<Response>;
+
+/**
+ * Options for createAuthFetch
+ */
+export interface AuthFetchOptions extends RequestAuthOptions {
+  /** Underlying fetch implementation. Defaults to the global fetch */
+  fetch?: typeof fetch;
+}
+
+/**
+ * Returns a copy of the request carrying the bearer token
+ */
+function withBearer(request: Request, token: string): Request {
+  const headers = new Headers(request.headers);
+  headers.set('Authorization', `Bearer ${token}`);
+  return new Request(request, { headers });
+}
+
+/**
+ * Creates a fetch wrapper that attaches `Authorization: Bearer <token>` to
+ * requests for allowed origins. When such a request is rejected with a 401
+ * and `WWW-Authenticate: ... invalid_token`, the token is refreshed once and
+ * the request retried. If the user is signed out or the session has expired,
+ * `onUnauthenticated` (by default a login redirect) runs instead and the 401
+ * response is returned; the request rejects if that fails. Other refresh
+ * failures reject the request.
+ *
+ * @example
+ * ```ts
+ * const auth = useScalekitAuth();
+ *
+ * const authFetch = createAuthFetch(auth, {
+ *   allowedOrigins: ['https://api.example.com'],
+ *   audienceByOrigin: { 'https://api.example.com': 'https://api.example.com' },
+ * });
+ *
+ * const response = await authFetch('https://api.example.com/invoices');
+ * ```
+ *
+ * @param auth The Scalekit auth instance (or the result of useScalekitAuth)
+ * @param options Configuration options
+ * @returns A fetch-compatible function
+ */
+export function createAuthFetch(auth: AuthFetchClient, options: AuthFetchOptions = {}): AuthFetch {
+  const baseFetch: typeof fetch = options.fetch ?? ((input, init) => fetch(input, init));
+  const matchRequest = createRequestMatcher(options);
+  const refreshToken = createTokenRefresher(auth);
+  const handleUnauthenticated = createUnauthenticatedHandler(auth, options.onUnauthenticated);
+
+  return async function authFetch(input, init) {
+    const request = new Request(input, init);
+    const target = matchRequest(request.url);
+
+    if (!target) {
+      return baseFetch(request);
+    }
+
+    const { audience } = target;
+    let token: string;
+
+    try {
+      token = await auth.getAccessToken({ audience });
+    } catch (error) {
+      // Let the API decide whether the request needs authentication
+      if (isNotAuthenticatedError(error)) {
+        return baseFetch(request);
+      }
+      throw error;
+    }
+
+    // Keep an unread copy of the body for the retry
+    const retryRequest = request.clone();
+    const response = await baseFetch(withBearer(request, token));
+
+    if (
+      response.status !== 401 ||
+      !isInvalidTokenChallenge(response.headers.get('WWW-Authenticate'))
+    ) {
+      return response;
+    }
+
+    try {
+      token = await refreshToken(token, audience);
+    } catch (error) {
+      if (isNotAuthenticatedError(error)) {
+        await handleUnauthenticated(error);
+        return response;
+      }
+      throw error;
+    }
+
+    return baseFetch(withBearer(retryRequest, token));
+  };
+}
@@ -1,13 +1,140 @@
-import { inject } from 'vue';
-import type { NavigationGuardWithThis, RouteLocationNormalized } from 'vue-router';
-import { SCALEKIT_AUTH_KEY } from './constants';
+import type {
+  NavigationGuardWithThis,
+  RouteLocationNormalized,
+  RouteLocationRaw,
+  Router,
+} from 'vue-router';
+import { DEFAULT_INITIALIZATION_TIMEOUT_MS } from './constants';
 import type { ScalekitAuthInstance } from './plugin';
-import type { LoginWithRedirectOptions } from './types';
+import {
+  InitializationTimeoutError,
+  type LoginWithRedirectOptions,
+  type ScalekitUser,
+  type StepUpRequirement,
+} from './types';
+import { resolveAuth } from './utils/auth-instance';
+import { isUserAuthorized, userHasAnyRole, userHasPermission } from './utils/authorization';
+import { isStepUpSatisfied } from './utils/step-up';
+
+/**
+ * Authentication requirement of a route
+ * - `required`: only authenticated users may enter
+ * - `guest-only`: only unauthenticated users may enter (e.g. /login)
+ * - `optional`: everyone may enter
+ */
+export type RouteAuthRequirement = 'required' | 'guest-only' | 'optional';
+
+declare module 'vue-router' {
+  interface RouteMeta {
+    /** Authentication requirement, read by installAuthGuards */
+    auth?: RouteAuthRequirement;
+
+    /** Legacy flag, equivalent to `auth: 'required'` */
+    requiresAuth?: boolean;
+
+    /** The user must have at least one of these roles */
+    roles?: string[];
+
+    /** The user must have all of these permissions */
+    permissions?: string[];
+
+    /** The user must be signed in to this organization */
+    organizationId?: string;
+
+    /** Connection to route the login to */
+    connectionId?: string;
+
+    /** Login freshness and strength required; re-authenticates when not met */
+    stepUp?: StepUpRequirement;
+
+    /** Shorthand for `stepUp: { maxAge }` */
+    maxAge?: number;
+  }
+}
+
+/**
+ * Route meta merged across all matched route records
+ */
+export interface ResolvedRouteAuthMeta {
+  /** The effective authentication requirement */
+  auth: RouteAuthRequirement;
+
+  /** Role requirements; the user needs at least one role from each set */
+  roleSets: string[][];
+
+  /** Permissions required by any matched record */
+  permissions: string[];
+
+  /** Organization required by the closest record that sets one */
+  organizationId?: string;
+
+  /** Connection set by the closest record that sets one */
+  connectionId?: string;
+
+  /**
+   * Step-up requirement: the strictest maxAge of all matched records and
+   * the acr of the closest record that sets one
+   */
+  stepUp?: StepUpRequirement;
+}
+
+/**
+ * Options for installAuthGuards
+ */
+export interface InstallAuthGuardsOptions extends InitializationGuardOptions {
+  /** Requirement for routes that declare none. Defaults to "optional" */
+  defaultAuth?: RouteAuthRequirement;
+
+  /** Where to send authenticated users visiting guest-only routes. Defaults to "/" */
+  authenticatedRoute?: RouteLocationRaw;
+
+  /**
+   * Where to send authenticated users who lack the required roles or permissions.
+   * Navigation is cancelled when not set.
+   */
+  forbiddenRoute?: RouteLocationRaw;
+
+  /** Pre-fill email hint */
+  loginHint?: string;
+
+  /** Callback when redirecting to login */
+  onRedirecting?: () => void;
+}
+
+/**
+ * Route to navigate to when initialization times out
+ */
+export type InitializationErrorRoute =
+  | RouteLocationRaw
+  | ((error: InitializationTimeoutError) => RouteLocationRaw);
+
+/**
+ * Options shared by all guards for waiting on initialization
+ */
+interface InitializationGuardOptions {
+  /**
+   * How long to wait for the SDK to initialize, in milliseconds.
+   * Defaults to 10000.
+   */
+  initializationTimeout?: number;
+
+  /**
+   * Where to navigate when initialization times out.
+   * Navigation is cancelled when not set.
+   */
+  errorRoute?: InitializationErrorRoute;
+}
 
 /**
  * Options for the authentication guard
  */
-export interface AuthGuardOptions {
+export interface AuthGuardOptions extends InitializationGuardOptions {
+  /**
+   * Auth instance to check. Defaults to the instance installed by
+   * ScalekitAuthPlugin.
+   */
+  auth?: ScalekitAuthInstance;
+
   /** URL to return to after authentication (defaults to the target route) */
   returnTo?: string;
 
@@ -22,6 +149,46 @@ export interface AuthGuardOptions {
 
   /** Callback when redirecting to login */
   onRedirecting?: () => void;
+
+  /** The user must have at least one of these roles */
+  roles?: string[];
+
+  /** The user must have all of these permissions */
+  permissions?: string[];
+
+  /**
+   * Where to send authenticated users who lack the required roles or permissions.
+   * Navigation is cancelled when not set.
+   */
+  forbiddenRoute?: RouteLocationRaw;
+
+  /** Login freshness and strength required; re-authenticates when not met */
+  stepUp?: StepUpRequirement;
+}
+
+/**
+ * Waits for the auth instance to initialize.
+ * Resolves with the navigation result to return if initialization timed out.
+ */
+async function waitForInitialization(
+  auth: ScalekitAuthInstance,
+  timeout: number,
+  errorRoute?: InitializationErrorRoute
+): Promise<RouteLocationRaw | false | undefined> {
+  try {
+    await auth.whenReady({ timeout });
+    return undefined;
+  } catch (error) {
+    if (!(error instanceof InitializationTimeoutError)) {
+      throw error;
+    }
+
+    console.error('ScalekitAuth: Initialization timed out in route guard', error);
+    if (typeof errorRoute === 'function') {
+      return errorRoute(error);
+    }
+    return errorRoute ?? false;
+  }
 }
 
 /**
@@ -51,6 +218,14 @@ export interface AuthGuardOptions {
  *         organizationId: 'org_123',
  *       }),
  *     },
+ *     {
+ *       path: '/admin',
+ *       component: Admin,
+ *       beforeEnter: createAuthGuard({
+ *         roles: ['admin'],
+ *         forbiddenRoute: '/forbidden',
+ *       }),
+ *     },
  *   ],
  * });
  * ```
@@ -67,15 +242,20 @@ export function createAuthGuard(
     connectionId,
     loginHint,
     onRedirecting,
+    roles,
+    permissions,
+    forbiddenRoute,
+    stepUp,
+    initializationTimeout = DEFAULT_INITIALIZATION_TIMEOUT_MS,
+    errorRoute,
   } = options;
 
   return async function authGuard(
     to: RouteLocationNormalized,
     _from: RouteLocationNormalized
   ) {
-    // Note: This guard needs to be used in a component context
-    // For global guards, use createAuthGuardWithAuth below
-    const auth = inject<ScalekitAuthInstance>(SCALEKIT_AUTH_KEY);
+    // Resolved per navigation so the guard can be created before the plugin is installed
+    const auth = options.auth ?? resolveAuth();
 
     if (!auth) {
       console.error(
@@ -86,31 +266,30 @@ export function createAuthGuard(
     }
 
     // Wait for auth to initialize
-    if (auth.state.isLoading) {
-      // Return a promise that resolves when auth is ready
-      await new Promise<void>((resolve) => {
-        const checkLoading = () => {
-          if (!auth.state.isLoading) {
-            resolve();
-          } else {
-            setTimeout(checkLoading, 50);
-          }
-        };
-        checkLoading();
-      });
+    const timeoutRoute = await waitForInitialization(auth, initializationTimeout, errorRoute);
+    if (timeoutRoute !== undefined) {
+      return timeoutRoute;
     }
 
-    // User is authenticated, allow navigation
+    // User is authenticated, allow navigation if authorized and the login is recent enough
     if (auth.state.isAuthenticated) {
-      return true;
+      const user = auth.state.user as ScalekitUser;
+      if (!isUserAuthorized(user, { roles, permissions })) {
+        return forbiddenRoute ?? false;
+      }
+      if (!stepUp || isStepUpSatisfied(user, stepUp)) {
+        return true;
+      }
     }
 
-    // User is not authenticated, redirect to login
+    // User is not authenticated or must re-authenticate, redirect to login
     const loginOptions: LoginWithRedirectOptions = {
       returnTo: returnTo ?? to.fullPath,
       organizationId,
       connectionId,
       loginHint,
+      maxAge: stepUp?.maxAge,
+      acrValues: stepUp?.acr,
     };
 
     onRedirecting?.();
@@ -130,7 +309,7 @@ export function createAuthGuard(
  * Creates a global authentication guard for use with router.beforeEach().
  *
  * This version accepts the auth instance directly, making it suitable for
- * global navigation guards where inject() is not available.
+ * global navigation guards registered before or outside the app.
  *
  * @example
  * ```ts
@@ -142,13 +321,11 @@ export function createAuthGuard(
  * const app = createApp(App);
  * const router = createRouter({ ... });
  *
- * // Install the plugin
- * app.use(ScalekitAuthPlugin, { ... });
+ * // Install the plugin and keep the auth instance
+ * const auth = ScalekitAuthPlugin.install(app, { ... });
  * app.use(router);
  *
- * // Get the auth instance and create guard
- * // Note: For global guards, you may need to access auth differently
- * // This is typically handled per-route with beforeEnter instead
+ * router.beforeEach(createGlobalAuthGuard(auth));
  * ```
  *
  * @param auth The Scalekit auth instance
@@ -165,37 +342,43 @@ export function createGlobalAuthGuard(
     connectionId,
     loginHint,
     onRedirecting,
+    roles,
+    permissions,
+    forbiddenRoute,
+    stepUp,
+    initializationTimeout = DEFAULT_INITIALIZATION_TIMEOUT_MS,
+    errorRoute,
   } = options;
 
   return async function globalAuthGuard(
     to: RouteLocationNormalized,
     _from: RouteLocationNormalized
-  ): Promise<boolean> {
+  ): Promise<boolean | RouteLocationRaw> {
     // Wait for auth to initialize
-    if (auth.state.isLoading) {
-      await new Promise<void>((resolve) => {
-        const checkLoading = () => {
-          if (!auth.state.isLoading) {
-            resolve();
-          } else {
-            setTimeout(checkLoading, 50);
-          }
-        };
-        checkLoading();
-      });
+    const timeoutRoute = await waitForInitialization(auth, initializationTimeout, errorRoute);
+    if (timeoutRoute !== undefined) {
+      return timeoutRoute;
     }
 
-    // User is authenticated, allow navigation
+    // User is authenticated, allow navigation if authorized and the login is recent enough
     if (auth.state.isAuthenticated) {
-      return true;
+      const user = auth.state.user as ScalekitUser;
+      if (!isUserAuthorized(user, { roles, permissions })) {
+        return forbiddenRoute ?? false;
+      }
+      if (!stepUp || isStepUpSatisfied(user, stepUp)) {
+        return true;
+      }
     }
 
-    // User is not authenticated, redirect to login
+    // User is not authenticated or must re-authenticate, redirect to login
     const loginOptions: LoginWithRedirectOptions = {
       returnTo: returnTo ?? to.fullPath,
       organizationId,
       connectionId,
       loginHint,
+      maxAge: stepUp?.maxAge,
+      acrValues: stepUp?.acr,
     };
 
     onRedirecting?.();
@@ -235,5 +418,181 @@ export function createGlobalAuthGuard(
  * ```
  */
 export function requiresAuth(route: RouteLocationNormalized): boolean {
-  return route.matched.some((record) => record.meta.requiresAuth === true);
+  return resolveRouteAuthMeta(route).auth === 'required';
+}
+
+/**
+ * Merges the auth meta of all records matched by a route.
+ *
+ * Child records override `auth`, `organizationId`, `connectionId` and the
+ * step-up `acr`; role and permission requirements accumulate, and the
+ * smallest `maxAge` wins. Declaring roles, permissions, an organization or a
+ * step-up requirement implies `auth: 'required'` unless a record sets `auth`
+ * explicitly.
+ */
+export function resolveRouteAuthMeta(
+  route: RouteLocationNormalized,
+  defaultAuth: RouteAuthRequirement = 'optional'
+): ResolvedRouteAuthMeta {
+  const resolved: ResolvedRouteAuthMeta = {
+    auth: defaultAuth,
+    roleSets: [],
+    permissions: [],
+  };
+  let explicitAuth: RouteAuthRequirement | undefined;
+  let impliesAuth = false;
+
+  for (const record of route.matched) {
+    const { meta } = record;
+
+    if (meta.auth) {
+      explicitAuth = meta.auth;
+    } else if (meta.requiresAuth === true) {
+      explicitAuth = 'required';
+    }
+
+    if (meta.roles?.length) {
+      resolved.roleSets.push(meta.roles);
+      impliesAuth = true;
+    }
+    if (meta.permissions?.length) {
+      resolved.permissions.push(...meta.permissions);
+      impliesAuth = true;
+    }
+    if (meta.organizationId) {
+      resolved.organizationId = meta.organizationId;
+      impliesAuth = true;
+    }
+    if (meta.connectionId) {
+      resolved.connectionId = meta.connectionId;
+    }
+    const maxAge = meta.stepUp?.maxAge ?? meta.maxAge;
+    if (maxAge !== undefined) {
+      const current = resolved.stepUp?.maxAge;
+      resolved.stepUp = { ...resolved.stepUp, maxAge: Math.min(current ?? maxAge, maxAge) };
+      impliesAuth = true;
+    }
+    if (meta.stepUp?.acr !== undefined) {
+      resolved.stepUp = { ...resolved.stepUp, acr: meta.stepUp.acr };
+      impliesAuth = true;
+    }
+  }
+
+  resolved.auth = explicitAuth ?? (impliesAuth ? 'required' : defaultAuth);
+  return resolved;
+}
+
+/**
+ * Installs a global guard that enforces the auth requirements declared in route meta.
+ *
+ * @example
+ * ```ts
+ * // router/index.ts
+ * const routes = [
+ *   { path: '/login', component: Login, meta: { auth: 'guest-only' } },
+ *   {
+ *     path: '/admin',
+ *     component: AdminLayout,
+ *     meta: { auth: 'required', roles: ['admin'] },
+ *     children: [
+ *       { path: 'billing', component: Billing, meta: { permissions: ['billing:read'], stepUp: { maxAge: 300 } } },
+ *     ],
+ *   },
+ * ];
+ *
+ * // main.ts - installed by the plugin when a router is passed
+ * app.use(ScalekitAuthPlugin, {
+ *   ...options,
+ *   router,
+ *   installGuards: { forbiddenRoute: '/forbidden' },
+ * });
+ * ```
+ *
+ * @param router The Vue Router instance
+ * @param auth The Scalekit auth instance
+ * @param options Configuration options for the guard
+ * @returns A function that removes the guard
+ */
+export function installAuthGuards(
+  router: Router,
+  auth: ScalekitAuthInstance,
+  options: InstallAuthGuardsOptions = {}
+): () => void {
+  const {
+    defaultAuth = 'optional',
+    authenticatedRoute = '/',
+    forbiddenRoute,
+    loginHint,
+    onRedirecting,
+    initializationTimeout = DEFAULT_INITIALIZATION_TIMEOUT_MS,
+    errorRoute,
+  } = options;
+
+  async function redirectToLogin(
+    to: RouteLocationNormalized,
+    loginOptions: LoginWithRedirectOptions
+  ): Promise<false> {
+    onRedirecting?.();
+
+    try {
+      await auth.loginWithRedirect({ returnTo: to.fullPath, loginHint, ...loginOptions });
+    } catch (error) {
+      console.error('installAuthGuards: Failed to redirect to login', error);
+    }
+
+    return false;
+  }
+
+  return router.beforeEach(async (to) => {
+    const meta = resolveRouteAuthMeta(to, defaultAuth);
+
+    if (meta.auth === 'optional') {
+      return true;
+    }
+
+    // Wait for auth to initialize
+    const timeoutRoute = await waitForInitialization(auth, initializationTimeout, errorRoute);
+    if (timeoutRoute !== undefined) {
+      return timeoutRoute;
+    }
+
+    if (meta.auth === 'guest-only') {
+      return auth.state.isAuthenticated ? authenticatedRoute : true;
+    }
+
+    const loginRouting = {
+      organizationId: meta.organizationId,
+      connectionId: meta.connectionId,
+    };
+
+    if (!auth.state.isAuthenticated) {
+      return redirectToLogin(to, loginRouting);
+    }
+
+    const user = auth.state.user as ScalekitUser;
+
+    // Signed in to a different organization
+    if (meta.organizationId && user.metadata.organizationId !== meta.organizationId) {
+      return redirectToLogin(to, loginRouting);
+    }
+
+    const authorized =
+      meta.roleSets.every((roles) => userHasAnyRole(user, roles)) &&
+      userHasPermission(user, meta.permissions);
+
+    if (!authorized) {
+      return forbiddenRoute ?? false;
+    }
+
+    // Login is older or weaker than the route allows
+    if (meta.stepUp && !isStepUpSatisfied(user, meta.stepUp)) {
+      return redirectToLogin(to, {
+        ...loginRouting,
+        maxAge: meta.stepUp.maxAge,
+        acrValues: meta.stepUp.acr,
+      });
+    }
+
+    return true;
+  });
 }
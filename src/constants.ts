@@ -31,22 +31,63 @@ export const SCALEKIT_PARAMS = {
   ORGANIZATION_ID: 'organization_id',
   CONNECTION_ID: 'connection_id',
   LOGIN_HINT: 'login_hint',
+  INVITATION_CODE: 'invitation_code',
+  FEDERATED_LOGOUT: 'federated',
 } as const;
 
 /**
- * Default popup window dimensions
+ * Default popup window dimensions and timeout (in milliseconds)
  */
 export const DEFAULT_POPUP_CONFIG = {
   WIDTH: 500,
   HEIGHT: 600,
+  TIMEOUT_MS: 300000,
 } as const;
 
+/**
+ * Window name of the login popup, used to recognize the popup callback
+ */
+export const POPUP_WINDOW_TARGET = 'scalekit-auth-popup';
+
 /**
  * Silent renew interval buffer (in seconds before expiry)
  */
 export const TOKEN_EXPIRY_BUFFER_SECONDS = 60;
 
 /**
- * Injection key for the Scalekit auth instance
+ * Time a follower tab waits for the leader tab to renew the session before
+ * renewing it itself (in milliseconds)
+ */
+export const LEADER_RENEWAL_TIMEOUT_MS = 10000;
+
+/**
+ * Default retry policy for background token refresh (delays in milliseconds)
+ */
+export const DEFAULT_REFRESH_RETRY = {
+  RETRIES: 3,
+  BASE_DELAY_MS: 1000,
+  MAX_DELAY_MS: 30000,
+} as const;
+
+/**
+ * Default time discovered OIDC metadata is cached (in milliseconds)
+ */
+export const DEFAULT_DISCOVERY_CACHE_TTL_MS = 3600000;
+
+/**
+ * Defaults for client-side ID token validation
+ */
+export const DEFAULT_ID_TOKEN_VALIDATION = {
+  CLOCK_SKEW_SECONDS: 60,
+} as const;
+
+/**
+ * Default time route guards wait for initialization (in milliseconds)
+ */
+export const DEFAULT_INITIALIZATION_TIMEOUT_MS = 10000;
+
+/**
+ * Injection key for the Scalekit auth instance.
+ * Registered globally so separately bundled entry points share it.
  */
-export const SCALEKIT_AUTH_KEY = Symbol('scalekit-auth');
+export const SCALEKIT_AUTH_KEY = Symbol.for('scalekit-auth');
@@ -0,0 +1,136 @@
+import {
+  shallowRef,
+  watchEffect,
+  type Directive,
+  type DirectiveBinding,
+  type ShallowRef,
+} from 'vue';
+import type { ScalekitAuthInstance } from './plugin';
+import type { ScalekitUser } from './types';
+import { userHasAnyRole, userHasPermission } from './utils/authorization';
+
+/**
+ * Value accepted by v-can (all required) and v-role (any required)
+ */
+export type AuthDirectiveValue = string | string[] | undefined;
+
+/**
+ * Per-element bookkeeping for an auth directive
+ */
+interface DirectiveState {
+  binding: ShallowRef<DirectiveBinding<AuthDirectiveValue>>;
+  stop: () => void;
+
+  /** Inline display to restore, taken from the element each time it is hidden */
+  display: string;
+  hidden: boolean;
+
+  /** Whether the directive, rather than the template, disabled the element */
+  disabled: boolean;
+}
+
+/**
+ * Shows/hides the element, or enables/disables it with the `disable` modifier.
+ * Only what the directive changed is undone, so styles and attributes the
+ * template sets in the meantime are kept.
+ */
+function applyVisibility(el: HTMLElement, state: DirectiveState, allowed: boolean): void {
+  if (state.binding.value.modifiers.disable) {
+    if (allowed && state.disabled) {
+      el.removeAttribute('disabled');
+      el.removeAttribute('aria-disabled');
+      state.disabled = false;
+    } else if (!allowed && !el.hasAttribute('disabled')) {
+      el.setAttribute('disabled', '');
+      el.setAttribute('aria-disabled', 'true');
+      state.disabled = true;
+    }
+    return;
+  }
+
+  if (allowed) {
+    if (state.hidden) {
+      el.style.display = state.display;
+      state.hidden = false;
+    }
+    return;
+  }
+
+  // A re-render may have replaced the hidden display with the template's own
+  if (!state.hidden || el.style.display !== 'none') {
+    state.display = el.style.display;
+  }
+  el.style.display = 'none';
+  state.hidden = true;
+}
+
+/**
+ * Creates a directive that reactively re-evaluates `check` against the auth state
+ */
+function createAuthDirective(
+  check: (binding: DirectiveBinding<AuthDirectiveValue>) => boolean
+): Directive<HTMLElement, AuthDirectiveValue> {
+  const states = new WeakMap<HTMLElement, DirectiveState>();
+
+  return {
+    mounted(el, binding) {
+      const state: DirectiveState = {
+        binding: shallowRef(binding),
+        stop: () => {},
+        display: el.style.display,
+        hidden: false,
+        disabled: false,
+      };
+      state.stop = watchEffect(() => applyVisibility(el, state, check(state.binding.value)));
+      states.set(el, state);
+    },
+
+    updated(el, binding) {
+      const state = states.get(el);
+      if (state) {
+        state.binding.value = binding;
+        // The re-render may have reset the element's style or attributes
+        applyVisibility(el, state, check(binding));
+      }
+    },
+
+    unmounted(el) {
+      states.get(el)?.stop();
+      states.delete(el);
+    },
+  };
+}
+
+/**
+ * Creates the v-auth, v-guest, v-can and v-role directives for an auth instance.
+ *
+ * Elements are hidden with `display: none` when the check fails; add the
+ * `disable` modifier to disable them instead (e.g.
+ * `v-can.disable="'invoices:write'"`). The directives are presentational
+ * only: the element stays in the DOM, so use `v-if` for content that must
+ * not reach unauthorized users.
+ *
+ * @param auth The Scalekit auth instance
+ * @returns The directives, keyed by name
+ */
+export function createAuthDirectives(auth: ScalekitAuthInstance) {
+  const currentUser = () => auth.state.user as ScalekitUser | null;
+  const toList = (value: AuthDirectiveValue) =>
+    value === undefined ? [] : Array.isArray(value) ? value : [value];
+
+  return {
+    /** Shown only when the user is authenticated */
+    auth: createAuthDirective(() => auth.state.isAuthenticated),
+
+    /** Shown only when the user is not authenticated */
+    guest: createAuthDirective(() => !auth.state.isLoading && !auth.state.isAuthenticated),
+
+    /** Shown only when the user has the permission (or all of the permissions) */
+    can: createAuthDirective((binding) =>
+      userHasPermission(currentUser(), toList(binding.value))
+    ),
+
+    /** Shown only when the user has the role (or any of the roles) */
+    role: createAuthDirective((binding) => userHasAnyRole(currentUser(), toList(binding.value))),
+  };
+}
@@ -1,32 +1,100 @@
 // Plugin
-export { ScalekitAuthPlugin, SCALEKIT_AUTH_KEY } from './plugin';
+export { ScalekitAuthPlugin, createScalekitAuth, SCALEKIT_AUTH_KEY } from './plugin';
 export type { ScalekitAuthInstance, ScalekitAuthMethods } from './plugin';
 
 // Composables
 export { useScalekitAuth } from './useScalekitAuth';
 export type { UseScalekitAuthReturn } from './useScalekitAuth';
 export { useAccessToken } from './useAccessToken';
-export type { UseAccessTokenReturn } from './useAccessToken';
+export type { UseAccessTokenReturn, UseAccessTokenOptions } from './useAccessToken';
+export { useAuthFetch } from './useAuthFetch';
+export type { UseAuthFetchReturn } from './useAuthFetch';
+export { useAuthorization } from './useAuthorization';
+export type { UseAuthorizationReturn } from './useAuthorization';
+export { useOrganization } from './useOrganization';
+export type { UseOrganizationReturn } from './useOrganization';
+
+// Authenticated fetch
+export { createAuthFetch } from './authFetch';
+export type { AuthFetch, AuthFetchClient, AuthFetchOptions } from './authFetch';
+export type { RequestAuthOptions } from './utils/request-auth';
+
+// Domain discovery
+export { createConnectionEndpointResolver } from './utils/connection-resolver';
+export type { ConnectionEndpointOptions } from './utils/connection-resolver';
+
+// Storage adapters
+export { createIndexedDbStorage, createCookieStorage } from './utils/storage-adapters';
+export type { IndexedDbStorageOptions, CookieStorageOptions } from './utils/storage-adapters';
+export { createWebStorageAdapter } from './utils/storage';
+export { createEncryptedStorage } from './utils/encrypted-storage';
+export type { EncryptedStorageOptions } from './utils/encrypted-storage';
 
 // Components
 export { ScalekitCallback } from './ScalekitCallback';
 export type { ScalekitCallbackProps, ScalekitCallbackInstance } from './ScalekitCallback';
+export { ScalekitLoginForm } from './ScalekitLoginForm';
+export type {
+  ScalekitLoginFormProps,
+  ScalekitLoginFormSlotProps,
+  ScalekitLoginFormInstance,
+} from './ScalekitLoginForm';
+
+// Directives
+export { createAuthDirectives } from './directives';
+export type { AuthDirectiveValue } from './directives';
 
 // Route Guards
-export { createAuthGuard, createGlobalAuthGuard, requiresAuth } from './authGuard';
-export type { AuthGuardOptions } from './authGuard';
+export {
+  createAuthGuard,
+  createGlobalAuthGuard,
+  requiresAuth,
+  installAuthGuards,
+  resolveRouteAuthMeta,
+} from './authGuard';
+export type {
+  AuthGuardOptions,
+  InitializationErrorRoute,
+  InstallAuthGuardsOptions,
+  ResolvedRouteAuthMeta,
+  RouteAuthRequirement,
+} from './authGuard';
 
 // Types - Config
 export type {
   StorageType,
+  StorageAdapter,
+  AudienceTokenGrant,
+  RefreshRetryOptions,
+  IdTokenValidationOptions,
+  DiscoveryMode,
+  DiscoveryOption,
+  OidcProviderMetadata,
   ScalekitAuthConfig,
   ScalekitAuthPluginOptions,
   LoginWithRedirectOptions,
   LoginWithPopupOptions,
+  LoginWithEmailOptions,
+  ConnectionRoute,
+  ConnectionResolver,
+  LoginPrompt,
+  ScreenHint,
+  InvitationParams,
+  StepUpRequirement,
+  RequireRecentLoginOptions,
+  LogoutMode,
   LogoutOptions,
+  LogoutResult,
   GetAccessTokenOptions,
+  WhenReadyOptions,
+  SwitchOrganizationMode,
+  SwitchOrganizationOptions,
+  OrganizationSwitchResult,
   AppState,
+  RedirectLoginResult,
   OnRedirectCallback,
+  OnStateChange,
+  ResolveReturnTo,
 } from './types';
 
 // Types - User
@@ -34,25 +102,37 @@ export type {
   ScalekitUser,
   ScalekitUserProfile,
   ScalekitUserMetadata,
+  ClaimMapping,
 } from './types';
 
 // Types - Auth State
 export type {
   AuthState,
+  AuthAction,
   InitializingState,
   UnauthenticatedState,
   AuthenticatedState,
   ErrorState,
+  OrganizationSwitchState,
 } from './types';
+export { initialAuthState, authReducer } from './types';
 
 // Error classes
 export {
   ScalekitAuthError,
   LoginError,
+  PopupBlockedError,
+  PopupClosedError,
+  PopupTimeoutError,
+  RedirectingError,
   TokenRefreshError,
   LogoutError,
   ConfigurationError,
   CallbackError,
+  TokenValidationError,
+  OrganizationSwitchError,
   NotInitializedError,
+  InitializationTimeoutError,
   NotAuthenticatedError,
 } from './types';
+export type { TokenValidationFailure } from './types';
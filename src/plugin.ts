@@ -1,28 +1,98 @@
-import { reactive, readonly, type App, type DeepReadonly } from 'vue';
-import { UserManager, User } from 'oidc-client-ts';
-import { SCALEKIT_AUTH_KEY, DEFAULT_POPUP_CONFIG } from './constants';
+import { reactive, readonly, toRaw, type App, type DeepReadonly } from 'vue';
+import {
+  UserManager,
+  User,
+  type ExtraSignoutRequestArgs,
+  type SigninPopupArgs,
+} from 'oidc-client-ts';
+import {
+  SCALEKIT_AUTH_KEY,
+  DEFAULT_POPUP_CONFIG,
+  LEADER_RENEWAL_TIMEOUT_MS,
+  POPUP_WINDOW_TARGET,
+} from './constants';
 import {
   type ScalekitAuthPluginOptions,
   type ScalekitUser,
   type LoginWithRedirectOptions,
   type LoginWithPopupOptions,
   type LogoutOptions,
+  type LogoutResult,
   type GetAccessTokenOptions,
+  type WhenReadyOptions,
+  type SwitchOrganizationOptions,
+  type RequireRecentLoginOptions,
+  type LoginWithEmailOptions,
+  type ConnectionRoute,
+  type OrganizationSwitchState,
+  type AppState,
+  type RedirectLoginResult,
   type AuthState,
+  type AuthAction,
   mapOidcUserToScalekitUser,
   initialAuthState,
+  authReducer,
   LoginError,
   LogoutError,
   TokenRefreshError,
+  OrganizationSwitchError,
+  PopupBlockedError,
+  RedirectingError,
+  PopupClosedError,
+  PopupTimeoutError,
   CallbackError,
+  TokenValidationError,
   NotAuthenticatedError,
+  InitializationTimeoutError,
 } from './types';
-import { createUserManager } from './utils/user-manager-factory';
+import { createUserManager, validateConfig } from './utils/user-manager-factory';
+import {
+  discoverProviderMetadata,
+  getDiscoveryCacheStorage,
+  getDiscoveryMode,
+  getStaticProviderMetadata,
+} from './utils/discovery';
+import { createIdTokenValidator, type IdTokenValidator } from './utils/id-token-validator';
+import { createAuthDirectives } from './directives';
+import { installAuthGuards } from './authGuard';
 import {
   hasAuthParams,
   cleanupAuthParams,
   buildScalekitParams,
+  buildRedirectState,
+  buildOrganizationSwitchState,
+  readOrganizationSwitch,
+  getCallbackStateId,
+  withSigninNonce,
+  readSigninNonce,
+  buildSigninArgs,
+  readInvitationParams,
+  getCurrentPath,
+  extractAppState,
+  buildLogoutState,
+  buildLogoutParams,
+  normalizeReturnPath,
 } from './utils/auth-params';
+import { encryptPlaintextEntries, getStorage, isStorageAdapter } from './utils/storage';
+import { registerAuth } from './utils/auth-instance';
+import { isStepUpSatisfied } from './utils/step-up';
+import { openPopupWindow, isPopupWindow } from './utils/popup';
+import { isFatalRefreshError, retryWithBackoff } from './utils/refresh-retry';
+import { getEmailDomain, resolveConnectionRoute } from './utils/connection-resolver';
+import {
+  isAudienceTokenRequest,
+  getAudienceTokenKey,
+  isTokenExpiring,
+  readCachedToken,
+  writeCachedToken,
+  clearCachedTokens,
+  requestAudienceToken,
+} from './utils/audience-token';
+import {
+  createSessionSync,
+  type SessionSync,
+  type SessionSyncMessage,
+} from './utils/session-sync';
 
 /**
  * Methods available on the auth instance
@@ -31,7 +101,33 @@ export interface ScalekitAuthMethods {
   /**
    * Initiates login by redirecting to the authorization server
    */
-  loginWithRedirect: (options?: LoginWithRedirectOptions) => Promise<void>;
+  loginWithRedirect: <TAppState extends AppState = AppState>(
+    options?: LoginWithRedirectOptions<TAppState>
+  ) => Promise<void>;
+
+  /**
+   * Initiates signup by redirecting to the hosted signup screen
+   */
+  signupWithRedirect: <TAppState extends AppState = AppState>(
+    options?: LoginWithRedirectOptions<TAppState>
+  ) => Promise<void>;
+
+  /**
+   * Initiates login for an email address, routing to the SSO connection of
+   * its domain when the connection resolver knows one
+   */
+  loginWithEmail: <TAppState extends AppState = AppState>(
+    email: string,
+    options?: LoginWithEmailOptions<TAppState>
+  ) => Promise<void>;
+
+  /**
+   * Accepts the invitation in the current URL by redirecting to signup for
+   * the invited organization. Options override values read from the URL.
+   */
+  acceptInvitation: <TAppState extends AppState = AppState>(
+    options?: LoginWithRedirectOptions<TAppState>
+  ) => Promise<void>;
 
   /**
    * Initiates login in a popup window
@@ -43,6 +139,11 @@ export interface ScalekitAuthMethods {
    */
   logout: (options?: LogoutOptions) => Promise<void>;
 
+  /**
+   * Handles the post-logout callback and returns the state passed to `logout`
+   */
+  handleLogoutCallback: () => Promise<LogoutResult>;
+
   /**
    * Gets the current access token, refreshing if necessary
    */
@@ -54,9 +155,38 @@ export interface ScalekitAuthMethods {
   refreshToken: () => Promise<ScalekitUser | null>;
 
   /**
-   * Handles the redirect callback (usually called automatically)
+   * Ensures the session satisfies a step-up requirement, re-authenticating
+   * only when it does not. Resolves with true when the session is sufficient,
+   * or false when re-authentication continues through a redirect.
+   */
+  requireRecentLogin: (options?: RequireRecentLoginOptions) => Promise<boolean>;
+
+  /**
+   * Re-authenticates against another organization. Resolves with the updated
+   * user, or null when the switch continues through a redirect.
+   */
+  switchOrganization: (
+    organizationId: string,
+    options?: SwitchOrganizationOptions
+  ) => Promise<ScalekitUser | null>;
+
+  /**
+   * Resolves with the auth state once initialization has completed
+   */
+  isReady: () => Promise<DeepReadonly<AuthState>>;
+
+  /**
+   * Like isReady, but rejects with InitializationTimeoutError after `timeout` ms
+   */
+  whenReady: (options?: WhenReadyOptions) => Promise<DeepReadonly<AuthState>>;
+
+  /**
+   * Handles the redirect callback (usually called automatically).
+   * Resolves with the user and the app state passed to `loginWithRedirect`.
    */
-  handleRedirectCallback: () => Promise<ScalekitUser>;
+  handleRedirectCallback: <TAppState extends AppState = AppState>() => Promise<
+    RedirectLoginResult<TAppState>
+  >;
 }
 
 /**
@@ -66,105 +196,468 @@ export interface ScalekitAuthInstance extends ScalekitAuthMethods {
   /** Reactive authentication state (readonly) */
   state: DeepReadonly<AuthState>;
 
+  /** Reactive progress of organization switches (readonly) */
+  organizationState: DeepReadonly<OrganizationSwitchState>;
+
   /** The underlying UserManager instance (for advanced use cases) */
-  userManager: UserManager | null;
+  readonly userManager: UserManager | null;
+
+  /**
+   * Stops cross-tab session sync and hands renewal leadership to another tab.
+   * Called by the plugin when the app unmounts.
+   */
+  close: () => void;
+}
+
+declare module 'vue' {
+  interface ComponentCustomProperties {
+    /** The Scalekit auth instance installed by ScalekitAuthPlugin */
+    $scalekit: ScalekitAuthInstance;
+  }
 }
 
 /**
- * Creates the Scalekit auth instance
+ * Creates a Scalekit auth instance without installing it into an app.
+ *
+ * Useful for code that runs outside components, such as router setup or
+ * API clients. Router, guard and directive options only take effect when
+ * the plugin is installed.
+ *
+ * @example
+ * ```ts
+ * import { createScalekitAuth } from '@scalekit/vue-sdk';
+ *
+ * export const auth = createScalekitAuth({
+ *   environmentUrl: 'https://your-tenant.scalekit.cloud',
+ *   clientId: 'your-client-id',
+ *   redirectUri: 'http://localhost:3000/callback',
+ * });
+ * ```
  */
-function createScalekitAuth(options: ScalekitAuthPluginOptions): ScalekitAuthInstance {
+export function createScalekitAuth(options: ScalekitAuthPluginOptions): ScalekitAuthInstance {
   const {
     onRedirectCallback,
+    onOrganizationSwitched,
+    onStateChange,
     onError,
     autoHandleCallback = true,
+    router,
+    defaultReturnTo = '/',
+    resolveReturnTo,
+    resolveConnection,
     ...config
   } = options;
 
   // Create reactive state
   const state = reactive<AuthState>({ ...initialAuthState });
+  const readonlyState = readonly(state) as DeepReadonly<AuthState>;
+  const organizationState = reactive<OrganizationSwitchState>({ switchingTo: null, error: null });
+
+  // Resolved the first time the state leaves the initializing phase
+  let markReady: () => void = () => {};
+  const ready = new Promise<void>((resolve) => {
+    markReady = resolve;
+  });
 
   // Create UserManager
   let userManager: UserManager | null = null;
 
+  // Storage of the session and of in-flight sign-in state
+  const userStorage = config.storage ?? 'sessionStorage';
+  const stateStorage = config.stateStorage ?? userStorage;
+
+  // Storage for access tokens requested for other audiences or scopes; these
+  // are read synchronously and cannot be encrypted, so they stay in memory
+  // with a custom adapter or encryption at rest
+  const tokenStorage = getStorage(
+    isStorageAdapter(userStorage) || config.encryptStorage ? 'memory' : userStorage
+  );
+
+  // Client-side ID token validation (opt-in), created once the endpoints are resolved
+  const validation = config.validateIdToken === true ? {} : config.validateIdToken || null;
+  let idTokenValidator: IdTokenValidator | null = null;
+
+  // Sign-ins whose ID token is being validated; userLoaded waits for them
+  let validatingSignins = 0;
+
+  // In-flight token requests, shared by concurrent callers
+  let renewPromise: Promise<User | null> | null = null;
+  let backgroundRefresh: Promise<void> | null = null;
+  const audienceTokenRequests = new Map<string, Promise<string>>();
+
+  // Tail of the refresh-token grants; they run one at a time so a rotated
+  // refresh token is never used twice
+  let refreshGrantQueue: Promise<unknown> = Promise.resolve();
+
+  // Cross-tab session sync
+  let sessionSync: SessionSync | null = null;
+  let applyingRemoteLogout = false;
+  let closed = false;
+
+  // On-demand renewal a follower tab has asked the leader for
+  let leaderRenewal: Promise<User | null> | null = null;
+  let notifyLeaderRenewal: (() => void) | null = null;
+
   /**
-   * Dispatch an action to update state
+   * Map an oidc-client-ts user using the configured claim mapping
    */
-  function dispatch(action: { type: string; user?: ScalekitUser | null; error?: Error }) {
-    switch (action.type) {
-      case 'INITIALIZING':
-        state.isLoading = true;
-        state.isAuthenticated = false;
-        state.user = null;
-        state.error = null;
-        break;
+  function toScalekitUser(oidcUser: User): ScalekitUser {
+    return mapOidcUserToScalekitUser(oidcUser, config.claims);
+  }
 
-      case 'INITIALIZED':
-        state.isLoading = false;
-        if (action.user) {
-          state.isAuthenticated = true;
-          state.user = action.user;
-        } else {
-          state.isAuthenticated = false;
-          state.user = null;
+  /**
+   * Dispatch an action to update state through authReducer
+   */
+  function dispatch(action: AuthAction) {
+    const prev: AuthState = { ...toRaw(state) };
+    const next = authReducer(prev, action);
+
+    if (next !== prev) {
+      Object.assign(state, next);
+    }
+    onStateChange?.(prev, next, action);
+
+    if (!state.isLoading) {
+      markReady();
+    }
+  }
+
+  /**
+   * Wait for initialization to complete
+   */
+  async function isReady(): Promise<DeepReadonly<AuthState>> {
+    await ready;
+    return readonlyState;
+  }
+
+  /**
+   * Wait for initialization to complete, with an optional timeout
+   */
+  function whenReady(options: WhenReadyOptions = {}): Promise<DeepReadonly<AuthState>> {
+    const { timeout } = options;
+    if (timeout === undefined) {
+      return isReady();
+    }
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timedOut = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new InitializationTimeoutError(timeout)), timeout);
+    });
+
+    return Promise.race([isReady(), timedOut]).finally(() => clearTimeout(timer));
+  }
+
+  /**
+   * Adds a nonce to sign-in arguments when ID tokens are validated
+   */
+  function withNonce<T extends object>(args: T): T {
+    return idTokenValidator ? withSigninNonce(args, idTokenValidator.createNonce()) : args;
+  }
+
+  /**
+   * Runs a sign-in and, when enabled, validates the returned ID token before
+   * the session is applied. A session whose token fails validation is removed,
+   * unless a refresh could not fetch the signing keys.
+   *
+   * A refresh response without an ID token keeps the previous one; such a
+   * carried-over token was validated at sign-in and may since have expired,
+   * so it is not validated again.
+   */
+  async function validatedSignin<T extends User | null>(
+    signin: () => Promise<T>,
+    options: { checkNonce: boolean; previousIdToken?: string }
+  ): Promise<T> {
+    if (!idTokenValidator) {
+      return signin();
+    }
+
+    const { checkNonce, previousIdToken } = options;
+    validatingSignins += 1;
+    try {
+      const oidcUser = await signin();
+      const carriedOver = previousIdToken !== undefined && oidcUser?.id_token === previousIdToken;
+      if (oidcUser && !carriedOver) {
+        try {
+          await idTokenValidator.validate(oidcUser.id_token, {
+            checkNonce,
+            nonce: readSigninNonce(oidcUser),
+          });
+        } catch (error) {
+          // A refresh whose signing keys could not be fetched keeps the
+          // session so it can be retried
+          if (checkNonce || isFatalRefreshError(error)) {
+            await userManager?.removeUser();
+          }
+          throw error;
+        }
+      }
+      return oidcUser;
+    } finally {
+      validatingSignins -= 1;
+    }
+  }
+
+  /**
+   * Runs a request using the session's refresh token once the previous one
+   * has settled
+   */
+  function runRefreshGrant<T>(grant: () => Promise<T>): Promise<T> {
+    const result = refreshGrantQueue.then(grant);
+    refreshGrantQueue = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Silently renews the session. Concurrent callers share one in-flight
+   * request, queued with audience token requests, so refresh-token rotation
+   * is never raced.
+   */
+  function renewSession(): Promise<User | null> {
+    if (!userManager) {
+      return Promise.resolve(null);
+    }
+
+    if (!renewPromise) {
+      const manager = userManager;
+      // Refreshed tokens carry no new nonce
+      renewPromise = runRefreshGrant(async () => {
+        const current = await manager.getUser();
+        return validatedSignin(() => manager.signinSilent(), {
+          checkNonce: false,
+          previousIdToken: current?.id_token,
+        });
+      })
+        .then((oidcUser) => {
+          if (oidcUser) {
+            // userLoaded was held back while the token was validated
+            if (idTokenValidator) {
+              dispatch({ type: 'TOKEN_REFRESHED', user: toScalekitUser(oidcUser) });
+            }
+            sessionSync?.broadcast({ type: 'TOKEN_REFRESHED' });
+          }
+          return oidcUser;
+        })
+        .finally(() => {
+          renewPromise = null;
+        });
+    }
+    return renewPromise;
+  }
+
+  /**
+   * Renews the session on demand. A follower tab asks the leader to renew and
+   * rereads the session once the leader reports back, so the shared refresh
+   * token is only rotated by one tab; it renews itself if the leader does not
+   * answer within LEADER_RENEWAL_TIMEOUT_MS.
+   */
+  function renewViaLeader(): Promise<User | null> {
+    if (!sessionSync || sessionSync.isLeader()) {
+      return renewSession();
+    }
+
+    if (!leaderRenewal) {
+      const sync = sessionSync;
+      leaderRenewal = new Promise<boolean>((resolve) => {
+        const timer = setTimeout(() => resolve(false), LEADER_RENEWAL_TIMEOUT_MS);
+        notifyLeaderRenewal = () => {
+          clearTimeout(timer);
+          resolve(true);
+        };
+        sync.broadcast({ type: 'RENEW_REQUESTED' });
+      })
+        .then(async (answered) => {
+          if (!answered) {
+            return renewSession();
+          }
+          const oidcUser = (await userManager?.getUser()) ?? null;
+          if (!oidcUser) {
+            throw new NotAuthenticatedError('Session expired');
+          }
+          return oidcUser;
+        })
+        .finally(() => {
+          leaderRenewal = null;
+          notifyLeaderRenewal = null;
+        });
+    }
+    return leaderRenewal;
+  }
+
+  /**
+   * End a session that could not be renewed
+   */
+  async function expireSession(error: Error | null): Promise<void> {
+    try {
+      // Raises userUnloaded, which clears cached tokens and notifies other tabs
+      await userManager?.removeUser();
+    } finally {
+      dispatch({ type: 'SESSION_EXPIRED', error });
+    }
+  }
+
+  /**
+   * Renew the session in the background, retrying transient failures with
+   * backoff. The user stays signed in until renewal definitively fails.
+   */
+  function refreshInBackground(): Promise<void> {
+    if (!backgroundRefresh) {
+      backgroundRefresh = runBackgroundRefresh().finally(() => {
+        backgroundRefresh = null;
+      });
+    }
+    return backgroundRefresh;
+  }
+
+  async function runBackgroundRefresh(): Promise<void> {
+    const toRefreshError = (error: unknown) =>
+      new TokenRefreshError(
+        'Silent token renewal failed',
+        error instanceof Error ? error : undefined
+      );
+
+    dispatch({ type: 'REFRESH_STARTED' });
+
+    try {
+      // userLoaded updates the state once renewal succeeds
+      await retryWithBackoff(
+        async () => {
+          const oidcUser = await renewSession();
+          if (!oidcUser) {
+            throw new Error('Silent refresh returned no user');
+          }
+        },
+        {
+          ...(config.refreshRetry === false ? { retries: 0 } : config.refreshRetry),
+          onRetry: (error) => {
+            dispatch({ type: 'REFRESH_FAILED', error: toRefreshError(error), willRetry: true });
+          },
+        }
+      );
+    } catch (error) {
+      const refreshError = toRefreshError(error);
+      onError?.(refreshError);
+
+      // Keep the session while its access token is still valid; the expiry
+      // event triggers another attempt
+      const current = await userManager?.getUser();
+      if (isFatalRefreshError(error) || !current || current.expired) {
+        await expireSession(refreshError);
+      } else {
+        dispatch({ type: 'REFRESH_FAILED', error: refreshError, willRetry: false });
+      }
+    }
+  }
+
+  /**
+   * Apply a session change made in another tab
+   */
+  async function handleSyncMessage(message: SessionSyncMessage): Promise<void> {
+    if (!userManager) {
+      return;
+    }
+
+    try {
+      if (message.type === 'RENEW_REQUESTED') {
+        // The result reaches the follower as TOKEN_REFRESHED or LOGOUT_COMPLETED
+        if (sessionSync?.isLeader()) {
+          void refreshInBackground();
+        }
+        return;
+      }
+
+      if (message.type === 'LOGOUT_COMPLETED') {
+        applyingRemoteLogout = true;
+        try {
+          await userManager.removeUser();
+        } finally {
+          applyingRemoteLogout = false;
+          notifyLeaderRenewal?.();
         }
-        state.error = null;
-        break;
-
-      case 'LOGIN_STARTED':
-        state.isLoading = true;
-        state.isAuthenticated = false;
-        state.user = null;
-        state.error = null;
-        break;
-
-      case 'LOGIN_COMPLETED':
-        state.isLoading = false;
-        state.isAuthenticated = true;
-        state.user = action.user!;
-        state.error = null;
-        break;
-
-      case 'LOGOUT_COMPLETED':
-        state.isLoading = false;
-        state.isAuthenticated = false;
-        state.user = null;
-        state.error = null;
-        break;
-
-      case 'TOKEN_REFRESHED':
-        state.isLoading = false;
-        state.isAuthenticated = true;
-        state.user = action.user!;
-        state.error = null;
-        break;
-
-      case 'ERROR':
-        state.isLoading = false;
-        state.isAuthenticated = false;
-        state.user = null;
-        state.error = action.error!;
-        break;
+        return;
+      }
+
+      // The message is only a signal; the session is read from the shared store
+      const oidcUser = await userManager.getUser();
+      if (!oidcUser) {
+        return;
+      }
+      // Reset expiry timers without re-raising userLoaded
+      await userManager.events.load(oidcUser, false);
+      dispatch({ type: message.type, user: toScalekitUser(oidcUser) });
+      notifyLeaderRenewal?.();
+    } catch (error) {
+      const syncError = new TokenRefreshError(
+        'Failed to apply session change from another tab',
+        error instanceof Error ? error : undefined
+      );
+      onError?.(syncError);
+    }
+  }
+
+  /**
+   * Navigate to a same-origin app path (requires `router`)
+   */
+  async function navigateTo(path: string): Promise<void> {
+    if (!router) {
+      return;
+    }
+
+    try {
+      await router.replace(normalizeReturnPath(path, defaultReturnTo));
+    } catch (error) {
+      console.error('ScalekitAuth: Failed to navigate to return path', error);
+    }
+  }
+
+  /**
+   * Navigate to the saved returnTo after a redirect login
+   */
+  async function navigateAfterLogin(result: RedirectLoginResult): Promise<void> {
+    const target = resolveReturnTo?.(result) ?? result.appState?.returnTo;
+    if (target === false) {
+      return;
     }
+
+    await navigateTo(target ?? defaultReturnTo);
   }
 
   /**
    * Handle redirect callback
    */
-  async function handleRedirectCallback(): Promise<ScalekitUser> {
+  async function handleRedirectCallback<TAppState extends AppState = AppState>(): Promise<
+    RedirectLoginResult<TAppState>
+  > {
     if (!userManager) {
       throw new CallbackError('UserManager not initialized');
     }
 
+    let result: RedirectLoginResult<TAppState>;
+    let organizationSwitch: ReturnType<typeof readOrganizationSwitch>;
+
     try {
-      const oidcUser = await userManager.signinRedirectCallback();
-      const scalekitUser = mapOidcUserToScalekitUser(oidcUser);
+      const oidcUser = await validatedSignin(() => userManager!.signinRedirectCallback(), {
+        checkNonce: true,
+      });
+      const scalekitUser = toScalekitUser(oidcUser);
+      const appState = extractAppState(oidcUser) as TAppState | undefined;
+      result = { user: scalekitUser, appState };
+      organizationSwitch = readOrganizationSwitch(oidcUser);
+
+      // Tokens for other audiences were issued for the previous organization
+      if (organizationSwitch) {
+        clearCachedTokens(tokenStorage);
+      }
 
       dispatch({ type: 'LOGIN_COMPLETED', user: scalekitUser });
+      sessionSync?.broadcast({ type: 'LOGIN_COMPLETED' });
       cleanupAuthParams();
-
-      return scalekitUser;
     } catch (error) {
+      if (error instanceof TokenValidationError) {
+        cleanupAuthParams();
+        dispatch({ type: 'ERROR', error });
+        throw error;
+      }
+
       const callbackError = new CallbackError(
         'Failed to process authentication callback',
         error instanceof Error ? error : undefined
@@ -172,41 +665,155 @@ function createScalekitAuth(options: ScalekitAuthPluginOptions): ScalekitAuthIns
       dispatch({ type: 'ERROR', error: callbackError });
       throw callbackError;
     }
+
+    if (organizationSwitch) {
+      onOrganizationSwitched?.({ ...organizationSwitch, user: result.user });
+    }
+
+    await navigateAfterLogin(result);
+
+    return result;
+  }
+
+  /**
+   * Whether the current page is the hidden iframe of a silent sign-in,
+   * told apart from a redirect callback by the sign-in state it answers
+   */
+  async function isSilentCallback(manager: UserManager): Promise<boolean> {
+    const stateId = getCallbackStateId();
+    if (!stateId || window.self === window.top) {
+      return false;
+    }
+
+    try {
+      const stored = await manager.settings.stateStore.get(stateId);
+      return stored ? JSON.parse(stored).request_type === 'si:s' : false;
+    } catch {
+      return false;
+    }
   }
 
   /**
    * Initialize the auth instance
    */
   async function initialize() {
-    userManager = createUserManager(config);
+    try {
+      validateConfig(config);
+
+      // Only `auto` discovery needs the network; other modes stay synchronous
+      const metadata =
+        getDiscoveryMode(config) === 'auto'
+          ? await discoverProviderMetadata(config, { storage: getDiscoveryCacheStorage() })
+          : getStaticProviderMetadata(config);
+
+      userManager = createUserManager(config, metadata);
+
+      if (validation) {
+        idTokenValidator = createIdTokenValidator({
+          issuer: metadata.issuer,
+          clientId: config.clientId,
+          jwksUri: validation.jwksUri ?? metadata.jwks_uri,
+          clockSkew: validation.clockSkew,
+        });
+      }
+
+      // Sessions stored before encryption was enabled are encrypted in place
+      if (config.encryptStorage) {
+        for (const storage of new Set([userStorage, stateStorage])) {
+          await encryptPlaintextEntries(storage);
+        }
+      }
+    } catch (error) {
+      const configError = error instanceof Error ? error : new Error('Initialization failed');
+      dispatch({ type: 'ERROR', error: configError });
+      onError?.(configError);
+      return;
+    }
+
+    // Popup and silent callback windows only hand the response back to the
+    // window that opened them, without joining session sync
+    if (autoHandleCallback && hasAuthParams()) {
+      try {
+        if (isPopupWindow()) {
+          await userManager.signinPopupCallback();
+          return;
+        }
+        if (await isSilentCallback(userManager)) {
+          await userManager.signinSilentCallback();
+          return;
+        }
+      } catch (error) {
+        const callbackError = error instanceof Error ? error : new Error('Callback failed');
+        dispatch({ type: 'ERROR', error: callbackError });
+        onError?.(callbackError);
+        return;
+      }
+    }
 
     // Set up event listeners
     userManager.events.addUserLoaded((oidcUser: User) => {
-      const scalekitUser = mapOidcUserToScalekitUser(oidcUser);
+      if (validatingSignins > 0) {
+        return;
+      }
+      const scalekitUser = toScalekitUser(oidcUser);
       dispatch({ type: 'TOKEN_REFRESHED', user: scalekitUser });
     });
 
+    // Tabs can only follow each other when they read the session from one store
+    const sharedSession = isStorageAdapter(userStorage) || userStorage === 'localStorage';
+    if ((config.syncTabs ?? sharedSession) && !closed) {
+      sessionSync = createSessionSync({
+        scope: `${config.clientId}:${userManager.settings.authority}`,
+        storageType: isStorageAdapter(userStorage) ? 'memory' : userStorage,
+        sharedSession,
+        onMessage: handleSyncMessage,
+      });
+    }
+
     userManager.events.addUserUnloaded(() => {
+      clearCachedTokens(tokenStorage);
       dispatch({ type: 'LOGOUT_COMPLETED' });
+      if (!applyingRemoteLogout) {
+        sessionSync?.broadcast({ type: 'LOGOUT_COMPLETED' });
+      }
     });
 
-    userManager.events.addSilentRenewError((error: Error) => {
-      const refreshError = new TokenRefreshError('Silent token renewal failed', error);
-      dispatch({ type: 'ERROR', error: refreshError });
-      onError?.(refreshError);
-    });
+    // Renew proactively, TOKEN_EXPIRY_BUFFER_SECONDS before the access token expires
+    if (config.automaticSilentRenew ?? true) {
+      userManager.events.addAccessTokenExpiring(() => {
+        // Only the leader tab renews; others pick up the result via session sync
+        if (sessionSync && !sessionSync.isLeader()) {
+          return;
+        }
+
+        void refreshInBackground();
+      });
+    }
 
     userManager.events.addAccessTokenExpired(() => {
-      dispatch({ type: 'LOGOUT_COMPLETED' });
+      // A refresh in progress decides whether the session survives
+      if (backgroundRefresh) {
+        return;
+      }
+
+      if (!(config.automaticSilentRenew ?? true)) {
+        dispatch({ type: 'SESSION_EXPIRED', error: null });
+        return;
+      }
+
+      // Last attempt before giving up; other tabs follow the leader via session sync
+      if (!sessionSync || sessionSync.isLeader()) {
+        void refreshInBackground();
+      }
     });
 
     try {
       // Check if we're handling a redirect callback
       if (autoHandleCallback && hasAuthParams()) {
-        const user = await handleRedirectCallback();
+        const { user, appState } = await handleRedirectCallback();
         onRedirectCallback?.({
           user,
-          appState: undefined,
+          appState,
         });
         return;
       }
@@ -214,7 +821,7 @@ function createScalekitAuth(options: ScalekitAuthPluginOptions): ScalekitAuthIns
       // Check for existing session
       const oidcUser = await userManager.getUser();
       if (oidcUser && !oidcUser.expired) {
-        const scalekitUser = mapOidcUserToScalekitUser(oidcUser);
+        const scalekitUser = toScalekitUser(oidcUser);
         dispatch({ type: 'INITIALIZED', user: scalekitUser });
       } else {
         dispatch({ type: 'INITIALIZED', user: null });
@@ -229,7 +836,9 @@ function createScalekitAuth(options: ScalekitAuthPluginOptions): ScalekitAuthIns
   /**
    * Login with redirect
    */
-  async function loginWithRedirect(options: LoginWithRedirectOptions = {}): Promise<void> {
+  async function loginWithRedirect<TAppState extends AppState = AppState>(
+    options: LoginWithRedirectOptions<TAppState> = {}
+  ): Promise<void> {
     if (!userManager) {
       throw new LoginError('UserManager not initialized');
     }
@@ -239,11 +848,14 @@ function createScalekitAuth(options: ScalekitAuthPluginOptions): ScalekitAuthIns
 
       const extraQueryParams = buildScalekitParams(options);
 
-      await userManager.signinRedirect({
-        state: options.returnTo ? { returnTo: options.returnTo } : undefined,
-        extraQueryParams:
-          Object.keys(extraQueryParams).length > 0 ? extraQueryParams : undefined,
-      });
+      await userManager.signinRedirect(
+        withNonce({
+          ...buildSigninArgs(options),
+          state: buildRedirectState(options),
+          extraQueryParams:
+            Object.keys(extraQueryParams).length > 0 ? extraQueryParams : undefined,
+        })
+      );
     } catch (error) {
       const loginError = new LoginError(
         'Failed to initiate login',
@@ -254,6 +866,122 @@ function createScalekitAuth(options: ScalekitAuthPluginOptions): ScalekitAuthIns
     }
   }
 
+  /**
+   * Signup with redirect
+   */
+  async function signupWithRedirect<TAppState extends AppState = AppState>(
+    options: LoginWithRedirectOptions<TAppState> = {}
+  ): Promise<void> {
+    await loginWithRedirect({ ...options, screenHint: 'signup' });
+  }
+
+  /**
+   * Login with email, resolving the SSO connection from its domain
+   */
+  async function loginWithEmail<TAppState extends AppState = AppState>(
+    email: string,
+    options: LoginWithEmailOptions<TAppState> = {}
+  ): Promise<void> {
+    const { resolveConnection: resolver = resolveConnection, ...loginOptions } = options;
+
+    const domain = getEmailDomain(email);
+    if (!domain) {
+      throw new LoginError(`Invalid email address: ${email}`);
+    }
+
+    let route: ConnectionRoute | null = null;
+    if (resolver) {
+      try {
+        route = await resolveConnectionRoute(resolver, domain, email);
+      } catch (error) {
+        // Fall back to the email hint; Scalekit can still discover the connection
+        console.error('ScalekitAuth: Failed to resolve connection for domain', error);
+      }
+    }
+
+    await loginWithRedirect({
+      ...loginOptions,
+      organizationId: loginOptions.organizationId ?? route?.organizationId,
+      connectionId: loginOptions.connectionId ?? route?.connectionId,
+      loginHint: email.trim(),
+    });
+  }
+
+  /**
+   * Accept the invitation in the current URL
+   */
+  async function acceptInvitation<TAppState extends AppState = AppState>(
+    options: LoginWithRedirectOptions<TAppState> = {}
+  ): Promise<void> {
+    const invitation = readInvitationParams();
+    if (!invitation && !options.invitationCode) {
+      throw new LoginError('No invitation found in the current URL');
+    }
+
+    await loginWithRedirect({ screenHint: 'signup', ...invitation, ...options });
+  }
+
+  /**
+   * Sign in through a popup. Blocked, closed, cancelled and timed-out popups
+   * reject with dedicated errors.
+   */
+  async function signinWithPopup(
+    args: SigninPopupArgs,
+    options: { width: number; height: number; timeout?: number; signal?: AbortSignal }
+  ): Promise<User> {
+    const { width, height, timeout = DEFAULT_POPUP_CONFIG.TIMEOUT_MS, signal } = options;
+
+    if (signal?.aborted) {
+      throw new PopupClosedError('Popup login was cancelled');
+    }
+
+    // Opened synchronously so the browser attributes it to the user's click
+    const popup = openPopupWindow(width, height);
+    if (!popup) {
+      throw new PopupBlockedError();
+    }
+
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer =
+      timeout > 0
+        ? setTimeout(() => {
+            timedOut = true;
+            controller.abort('Popup timed out');
+          }, timeout)
+        : undefined;
+    const cancel = () => controller.abort('Popup cancelled');
+    signal?.addEventListener('abort', cancel);
+
+    try {
+      return await userManager!.signinPopup({
+        ...args,
+        popupWindowTarget: POPUP_WINDOW_TARGET,
+        popupWindowFeatures: { width, height },
+        popupSignal: controller.signal,
+        popupAbortOnClose: true,
+      });
+    } catch (error) {
+      const cause = error instanceof Error ? error : undefined;
+      if (timedOut) {
+        throw new PopupTimeoutError(timeout, cause);
+      }
+      if (signal?.aborted) {
+        throw new PopupClosedError('Popup login was cancelled', cause);
+      }
+      if (popup.closed) {
+        throw new PopupClosedError(undefined, cause);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', cancel);
+      if (!popup.closed) {
+        popup.close();
+      }
+    }
+  }
+
   /**
    * Login with popup
    */
@@ -262,27 +990,49 @@ function createScalekitAuth(options: ScalekitAuthPluginOptions): ScalekitAuthIns
       throw new LoginError('UserManager not initialized');
     }
 
+    const previousUser = state.user;
+    let oidcUser: User;
+
     try {
       dispatch({ type: 'LOGIN_STARTED' });
 
       const extraQueryParams = buildScalekitParams(options);
-      const popupWidth = options.popupWidth ?? DEFAULT_POPUP_CONFIG.WIDTH;
-      const popupHeight = options.popupHeight ?? DEFAULT_POPUP_CONFIG.HEIGHT;
 
-      const oidcUser = await userManager.signinPopup({
-        popupWindowFeatures: {
-          width: popupWidth,
-          height: popupHeight,
-        },
-        extraQueryParams:
-          Object.keys(extraQueryParams).length > 0 ? extraQueryParams : undefined,
-      });
+      oidcUser = await validatedSignin(
+        () =>
+          signinWithPopup(
+            withNonce({
+              ...buildSigninArgs(options),
+              extraQueryParams:
+                Object.keys(extraQueryParams).length > 0 ? extraQueryParams : undefined,
+            }),
+            {
+              width: options.popupWidth ?? DEFAULT_POPUP_CONFIG.WIDTH,
+              height: options.popupHeight ?? DEFAULT_POPUP_CONFIG.HEIGHT,
+              timeout: options.timeout,
+              signal: options.signal,
+            }
+          ),
+        { checkNonce: true }
+      );
+    } catch (error) {
+      if (error instanceof PopupBlockedError && options.fallbackToRedirect) {
+        // The redirect only settles if it fails to start, which loginWithRedirect
+        // reports through state.error; otherwise the page navigates away
+        loginWithRedirect(options).catch(() => {});
+        throw new RedirectingError();
+      }
 
-      const scalekitUser = mapOidcUserToScalekitUser(oidcUser);
-      dispatch({ type: 'LOGIN_COMPLETED', user: scalekitUser });
+      // The user backed out; return to the session they had before
+      if (
+        error instanceof PopupBlockedError ||
+        error instanceof PopupClosedError ||
+        error instanceof PopupTimeoutError
+      ) {
+        dispatch({ type: 'LOGIN_CANCELLED', user: previousUser });
+        throw error;
+      }
 
-      return scalekitUser;
-    } catch (error) {
       const loginError = new LoginError(
         'Popup login failed',
         error instanceof Error ? error : undefined
@@ -290,6 +1040,12 @@ function createScalekitAuth(options: ScalekitAuthPluginOptions): ScalekitAuthIns
       dispatch({ type: 'ERROR', error: loginError });
       throw loginError;
     }
+
+    const scalekitUser = toScalekitUser(oidcUser);
+    dispatch({ type: 'LOGIN_COMPLETED', user: scalekitUser });
+    sessionSync?.broadcast({ type: 'LOGIN_COMPLETED' });
+
+    return scalekitUser;
   }
 
   /**
@@ -300,11 +1056,34 @@ function createScalekitAuth(options: ScalekitAuthPluginOptions): ScalekitAuthIns
       throw new LogoutError('UserManager not initialized');
     }
 
+    const mode = options.mode ?? 'redirect';
+
     try {
-      await userManager.signoutRedirect({
-        post_logout_redirect_uri: options.postLogoutRedirectUri,
-        state: options.state,
-      });
+      if (mode === 'local') {
+        await userManager.removeUser();
+        await userManager.clearStaleState();
+      } else {
+        const oidcUser = await userManager.getUser();
+        const signoutArgs: ExtraSignoutRequestArgs = {
+          id_token_hint: oidcUser?.id_token,
+          state: buildLogoutState(options),
+          extraQueryParams: buildLogoutParams(options),
+        };
+        if (options.postLogoutRedirectUri) {
+          signoutArgs.post_logout_redirect_uri = options.postLogoutRedirectUri;
+        }
+
+        if (mode === 'redirect') {
+          await userManager.signoutRedirect(signoutArgs);
+          return;
+        }
+
+        if (mode === 'popup') {
+          await userManager.signoutPopup(signoutArgs);
+        } else {
+          await userManager.signoutSilent(signoutArgs);
+        }
+      }
     } catch (error) {
       const logoutError = new LogoutError(
         'Logout failed',
@@ -313,6 +1092,45 @@ function createScalekitAuth(options: ScalekitAuthPluginOptions): ScalekitAuthIns
       dispatch({ type: 'ERROR', error: logoutError });
       throw logoutError;
     }
+
+    clearCachedTokens(tokenStorage);
+    dispatch({ type: 'LOGOUT_COMPLETED' });
+
+    if (options.returnTo) {
+      await navigateTo(options.returnTo);
+    }
+  }
+
+  /**
+   * Handle the post-logout redirect (or popup/iframe) callback
+   */
+  async function handleLogoutCallback(): Promise<LogoutResult> {
+    if (!userManager) {
+      throw new LogoutError('UserManager not initialized');
+    }
+
+    let result: LogoutResult;
+
+    try {
+      const response = await userManager.signoutCallback();
+      result = (response?.userState as LogoutResult | undefined) ?? {};
+
+      dispatch({ type: 'LOGOUT_COMPLETED' });
+      cleanupAuthParams();
+    } catch (error) {
+      const logoutError = new LogoutError(
+        'Failed to process logout callback',
+        error instanceof Error ? error : undefined
+      );
+      dispatch({ type: 'ERROR', error: logoutError });
+      throw logoutError;
+    }
+
+    if (result.returnTo) {
+      await navigateTo(result.returnTo);
+    }
+
+    return result;
   }
 
   /**
@@ -323,22 +1141,64 @@ function createScalekitAuth(options: ScalekitAuthPluginOptions): ScalekitAuthIns
       throw new NotAuthenticatedError('UserManager not initialized');
     }
 
+    const audienceRequest = isAudienceTokenRequest(options);
+    const cacheKey = getAudienceTokenKey(options);
+
     try {
+      // Wait for an in-flight renewal so the latest tokens are read
+      const pendingRenewal = renewPromise ?? leaderRenewal;
+      if (pendingRenewal) {
+        await pendingRenewal.catch(() => null);
+      }
+
       let oidcUser = await userManager.getUser();
 
       if (!oidcUser) {
         throw new NotAuthenticatedError();
       }
 
-      // Force refresh if requested or if token is expired
-      if (options.forceRefresh || oidcUser.expired) {
-        oidcUser = await userManager.signinSilent();
+      // Serve audience-scoped tokens from the cache while they are fresh
+      if (audienceRequest && !options.forceRefresh) {
+        const cached = readCachedToken(tokenStorage, cacheKey);
+        if (cached) {
+          return cached.accessToken;
+        }
+      }
+
+      // Force refresh if requested or if token expires within the buffer
+      if ((options.forceRefresh && !audienceRequest) || isTokenExpiring(oidcUser.expires_at)) {
+        try {
+          oidcUser = await renewViaLeader();
+        } catch (error) {
+          if (isFatalRefreshError(error)) {
+            await expireSession(
+              new TokenRefreshError(
+                'Session could not be renewed',
+                error instanceof Error ? error : undefined
+              )
+            );
+            throw new NotAuthenticatedError('Session expired');
+          }
+          throw error;
+        }
         if (!oidcUser) {
           throw new TokenRefreshError('Silent refresh returned no user');
         }
       }
 
-      return oidcUser.access_token;
+      if (!audienceRequest) {
+        return oidcUser.access_token;
+      }
+
+      let pending = audienceTokenRequests.get(cacheKey);
+      if (!pending) {
+        pending = fetchAudienceToken(oidcUser, options, cacheKey).finally(() => {
+          audienceTokenRequests.delete(cacheKey);
+        });
+        audienceTokenRequests.set(cacheKey, pending);
+      }
+
+      return await pending;
     } catch (error) {
       if (error instanceof NotAuthenticatedError) {
         throw error;
@@ -350,6 +1210,61 @@ function createScalekitAuth(options: ScalekitAuthPluginOptions): ScalekitAuthIns
     }
   }
 
+  /**
+   * Request and cache an access token for another audience or scope set.
+   * With the refresh_token grant the request is queued with session renewals
+   * and uses the latest stored refresh token.
+   */
+  async function fetchAudienceToken(
+    oidcUser: User,
+    options: GetAccessTokenOptions,
+    cacheKey: string
+  ): Promise<string> {
+    const manager = userManager!;
+    const grant = config.audienceTokenGrant ?? 'refresh_token';
+    const tokenEndpoint = await manager.metadataService.getTokenEndpoint(false);
+
+    const token =
+      grant === 'refresh_token'
+        ? await runRefreshGrant(async () => {
+            const current = (await manager.getUser()) ?? oidcUser;
+            const response = await requestAudienceToken({
+              tokenEndpoint,
+              clientId: config.clientId,
+              grant,
+              options,
+              accessToken: current.access_token,
+              refreshToken: current.refresh_token,
+            });
+
+            // Persist a rotated refresh token so the session can still be
+            // renewed, on top of the latest stored session
+            if (response.refreshToken && response.refreshToken !== current.refresh_token) {
+              const latest = (await manager.getUser()) ?? current;
+              latest.refresh_token = response.refreshToken;
+              await manager.storeUser(latest);
+              dispatch({ type: 'TOKEN_REFRESHED', user: toScalekitUser(latest) });
+              sessionSync?.broadcast({ type: 'TOKEN_REFRESHED' });
+            }
+            return response;
+          })
+        : await requestAudienceToken({
+            tokenEndpoint,
+            clientId: config.clientId,
+            grant,
+            options,
+            accessToken: oidcUser.access_token,
+          });
+
+    writeCachedToken(tokenStorage, cacheKey, {
+      accessToken: token.accessToken,
+      expiresAt: token.expiresAt,
+      scope: token.scope,
+    });
+
+    return token.accessToken;
+  }
+
   /**
    * Refresh token
    */
@@ -359,9 +1274,9 @@ function createScalekitAuth(options: ScalekitAuthPluginOptions): ScalekitAuthIns
     }
 
     try {
-      const oidcUser = await userManager.signinSilent();
+      const oidcUser = await renewViaLeader();
       if (oidcUser) {
-        const scalekitUser = mapOidcUserToScalekitUser(oidcUser);
+        const scalekitUser = toScalekitUser(oidcUser);
         dispatch({ type: 'TOKEN_REFRESHED', user: scalekitUser });
         return scalekitUser;
       }
@@ -371,22 +1286,174 @@ function createScalekitAuth(options: ScalekitAuthPluginOptions): ScalekitAuthIns
         'Token refresh failed',
         error instanceof Error ? error : undefined
       );
-      dispatch({ type: 'ERROR', error: refreshError });
+      if (isFatalRefreshError(error)) {
+        await expireSession(refreshError);
+      } else {
+        dispatch({ type: 'REFRESH_FAILED', error: refreshError, willRetry: false });
+      }
       throw refreshError;
     }
   }
 
+  /**
+   * Re-authenticate when the session is too old or too weak
+   */
+  async function requireRecentLogin(options: RequireRecentLoginOptions = {}): Promise<boolean> {
+    const { mode = 'redirect', returnTo, ...requirement } = options;
+
+    if (isStepUpSatisfied(state.user, requirement)) {
+      return true;
+    }
+
+    const loginOptions: LoginWithRedirectOptions = {
+      organizationId: state.user?.metadata.organizationId,
+      loginHint: state.user?.profile.email,
+      maxAge: requirement.maxAge,
+      acrValues: requirement.acr,
+    };
+
+    if (mode === 'popup') {
+      const user = await loginWithPopup(loginOptions);
+      return isStepUpSatisfied(user, requirement);
+    }
+
+    await loginWithRedirect({ ...loginOptions, returnTo: returnTo ?? getCurrentPath() });
+    return false;
+  }
+
+  /**
+   * Switch to another organization
+   */
+  async function switchOrganization(
+    organizationId: string,
+    options: SwitchOrganizationOptions = {}
+  ): Promise<ScalekitUser | null> {
+    if (!userManager) {
+      throw new OrganizationSwitchError('UserManager not initialized', organizationId);
+    }
+
+    const { mode = 'silent', fallback = 'redirect', returnTo } = options;
+    const previousOrganizationId = state.user?.metadata.organizationId;
+    const extraQueryParams = buildScalekitParams({ organizationId });
+
+    // Reserve the popup while the user's click is still being handled; the
+    // popup sign-in reuses the window if the silent attempt fails
+    const reservedPopup =
+      mode === 'silent' && fallback === 'popup'
+        ? openPopupWindow(DEFAULT_POPUP_CONFIG.WIDTH, DEFAULT_POPUP_CONFIG.HEIGHT)
+        : null;
+
+    organizationState.switchingTo = organizationId;
+    organizationState.error = null;
+    let redirecting = false;
+
+    try {
+      let oidcUser: User | null = null;
+
+      if (mode === 'silent') {
+        try {
+          // Skip the refresh token: it is bound to the current organization
+          const manager = userManager;
+          oidcUser = await validatedSignin(
+            () => manager.signinSilent(withNonce({ forceIframeAuth: true, extraQueryParams })),
+            { checkNonce: true }
+          );
+        } catch (error) {
+          if (!fallback) {
+            throw error;
+          }
+        }
+      }
+
+      const interactiveMode = mode === 'silent' ? fallback : mode;
+
+      if (!oidcUser && interactiveMode === 'redirect') {
+        await userManager.signinRedirect(
+          withNonce({
+            state: buildOrganizationSwitchState(returnTo ?? getCurrentPath(), {
+              organizationId,
+              previousOrganizationId,
+            }),
+            extraQueryParams,
+          })
+        );
+        redirecting = true;
+        return null;
+      }
+
+      if (!oidcUser && interactiveMode === 'popup') {
+        oidcUser = await validatedSignin(
+          () =>
+            signinWithPopup(withNonce({ extraQueryParams }), {
+              width: DEFAULT_POPUP_CONFIG.WIDTH,
+              height: DEFAULT_POPUP_CONFIG.HEIGHT,
+            }),
+          { checkNonce: true }
+        );
+      }
+
+      if (!oidcUser) {
+        throw new Error('No session was returned for the organization');
+      }
+
+      // Tokens for other audiences were issued for the previous organization
+      clearCachedTokens(tokenStorage);
+
+      const scalekitUser = toScalekitUser(oidcUser);
+      dispatch({ type: 'ORGANIZATION_SWITCHED', user: scalekitUser });
+      sessionSync?.broadcast({ type: 'LOGIN_COMPLETED' });
+      onOrganizationSwitched?.({ organizationId, previousOrganizationId, user: scalekitUser });
+
+      return scalekitUser;
+    } catch (error) {
+      // The current session stays intact when a switch fails
+      const switchError = new OrganizationSwitchError(
+        `Failed to switch to organization ${organizationId}`,
+        organizationId,
+        error instanceof Error ? error : undefined
+      );
+      organizationState.error = switchError;
+      onError?.(switchError);
+      throw switchError;
+    } finally {
+      // Stay in the switching state while the page navigates away
+      if (!redirecting) {
+        organizationState.switchingTo = null;
+      }
+      if (reservedPopup && !reservedPopup.closed) {
+        reservedPopup.close();
+      }
+    }
+  }
+
   // Initialize immediately
   initialize();
 
   return {
-    state: readonly(state) as DeepReadonly<AuthState>,
-    userManager,
+    state: readonlyState,
+    organizationState: readonly(organizationState) as DeepReadonly<OrganizationSwitchState>,
+    // Assigned during initialize(), so read it lazily
+    get userManager() {
+      return userManager;
+    },
+    close() {
+      closed = true;
+      sessionSync?.close();
+      sessionSync = null;
+    },
+    isReady,
+    whenReady,
     loginWithRedirect,
+    signupWithRedirect,
+    loginWithEmail,
+    acceptInvitation,
     loginWithPopup,
     logout,
+    handleLogoutCallback,
     getAccessToken,
     refreshToken,
+    requireRecentLogin,
+    switchOrganization,
     handleRedirectCallback,
   };
 }
@@ -409,11 +1476,39 @@ function createScalekitAuth(options: ScalekitAuthPluginOptions): ScalekitAuthIns
  *
  * app.mount('#app');
  * ```
+ *
+ * Calling `install` directly returns the auth instance:
+ *
+ * ```ts
+ * const auth = ScalekitAuthPlugin.install(app, options);
+ * ```
  */
 export const ScalekitAuthPlugin = {
-  install(app: App, options: ScalekitAuthPluginOptions) {
+  install(app: App, options: ScalekitAuthPluginOptions): ScalekitAuthInstance {
     const auth = createScalekitAuth(options);
     app.provide(SCALEKIT_AUTH_KEY, auth);
+    app.config.globalProperties.$scalekit = auth;
+    registerAuth(app, auth);
+    // app.onUnmount is only available from Vue 3.5
+    app.onUnmount?.(() => auth.close());
+
+    if (options.registerDirectives ?? true) {
+      const directives = createAuthDirectives(auth);
+      app.directive('auth', directives.auth);
+      app.directive('guest', directives.guest);
+      app.directive('can', directives.can);
+      app.directive('role', directives.role);
+    }
+
+    if (options.router && options.installGuards) {
+      installAuthGuards(
+        options.router,
+        auth,
+        options.installGuards === true ? {} : options.installGuards
+      );
+    }
+
+    return auth;
   },
 };
 
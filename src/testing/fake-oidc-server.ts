@@ -0,0 +1,578 @@
+import { base64UrlEncode } from '../utils/jwt';
+import { resolveUrl, parseBearerToken } from '../utils/request-auth';
+
+/**
+ * Claims of a user signing in to the fake server
+ */
+export interface FakeOidcUser {
+  /** Subject identifier */
+  sub: string;
+
+  /** Any other claim, e.g. `email`, `org_id` or `roles` */
+  [claim: string]: unknown;
+}
+
+/**
+ * Options for createFakeOidcServer
+ */
+export interface FakeOidcServerOptions {
+  /** Issuer URL; use it as the plugin's `environmentUrl`. Defaults to https://scalekit.test */
+  issuer?: string;
+
+  /** When set, requests from other clients are rejected */
+  clientId?: string;
+
+  /** User signed in by `authorize` when none is given */
+  user?: FakeOidcUser;
+
+  /** Lifetime of issued access tokens in seconds. Defaults to 3600 */
+  accessTokenLifetime?: number;
+
+  /** Whether refresh tokens are issued. Defaults to true */
+  refreshTokens?: boolean;
+
+  /**
+   * Whether refresh token grants return a new ID token. Defaults to true;
+   * set to false to test clients keeping the ID token of the sign-in
+   */
+  refreshIdTokens?: boolean;
+}
+
+/**
+ * Options for completing an authorization request
+ */
+export interface FakeAuthorizeOptions {
+  /** User to sign in. Defaults to the current session, then the server's user */
+  user?: FakeOidcUser;
+
+  /** Error code to return instead of a code, e.g. `access_denied` */
+  error?: string;
+}
+
+/**
+ * A request received by the fake server
+ */
+export interface FakeOidcRequest {
+  /** HTTP method */
+  method: string;
+
+  /** Full request URL */
+  url: string;
+
+  /** Form fields of the request body, if any */
+  body: Record<string, string>;
+}
+
+/**
+ * An in-process OIDC authorization server for integration tests
+ */
+export interface FakeOidcServer {
+  /** Issuer URL of the server */
+  readonly issuer: string;
+
+  /** Browser navigations captured since install, oldest first */
+  readonly redirects: string[];
+
+  /** Requests received by the token, userinfo and other endpoints */
+  readonly requests: FakeOidcRequest[];
+
+  /** Fetch implementation serving the server's endpoints; other URLs pass through */
+  fetch: typeof fetch;
+
+  /**
+   * Routes the global fetch and `window.location` navigations through the
+   * server. Returns a function restoring the originals.
+   */
+  install: () => () => void;
+
+  /** Resolves with the next captured navigation */
+  nextRedirect: () => Promise<string>;
+
+  /**
+   * Completes an authorization request and returns the callback URL carrying
+   * the code (or error). Defaults to the last captured authorize navigation.
+   */
+  authorize: (url?: string, options?: FakeAuthorizeOptions) => string;
+
+  /**
+   * Completes an end-session request and returns the post-logout redirect URL.
+   * Defaults to the last captured logout navigation.
+   */
+  logout: (url?: string) => string;
+
+  /** Ends the server session and revokes all refresh tokens, as if it expired */
+  revokeSession: () => void;
+}
+
+/**
+ * Default user signed in by the fake server
+ */
+const DEFAULT_FAKE_USER: FakeOidcUser = {
+  sub: 'usr_test',
+  email: 'test@example.com',
+  email_verified: true,
+  name: 'Test User',
+  org_id: 'org_test',
+};
+
+/**
+ * Authorization code waiting to be exchanged
+ */
+interface PendingCode {
+  clientId: string;
+  redirectUri: string;
+  codeChallenge: string | null;
+  codeChallengeMethod: string;
+  grant: TokenGrant;
+}
+
+/**
+ * What a set of tokens was issued for
+ */
+interface TokenGrant {
+  clientId: string;
+  user: FakeOidcUser;
+  scope: string;
+  nonce: string | null;
+  authTime: number;
+}
+
+/**
+ * Current time in seconds
+ */
+function now(): number {
+  return Math.floor(Date.now() / 1000);
+}
+
+/**
+ * Key ID of the server's signing key
+ */
+const SIGNING_KEY_ID = 'fake-oidc-key';
+
+/**
+ * Generates the RS256 key pair tokens are signed with
+ */
+async function createSigningKey(): Promise<{
+  privateKey: CryptoKey;
+  jwk: JsonWebKey & { kid: string };
+}> {
+  const { privateKey, publicKey } = await crypto.subtle.generateKey(
+    {
+      name: 'RSASSA-PKCS1-v1_5',
+      modulusLength: 2048,
+      publicExponent: new Uint8Array([1, 0, 1]),
+      hash: 'SHA-256',
+    },
+    true,
+    ['sign', 'verify']
+  );
+  const jwk = await crypto.subtle.exportKey('jwk', publicKey);
+  return { privateKey, jwk: { ...jwk, kid: SIGNING_KEY_ID, alg: 'RS256', use: 'sig' } };
+}
+
+/**
+ * Creates an RS256-signed JWT
+ */
+async function createSignedJwt(privateKey: CryptoKey, payload: Record<string, unknown>) {
+  const header = base64UrlEncode(JSON.stringify({ alg: 'RS256', typ: 'JWT', kid: SIGNING_KEY_ID }));
+  const signingInput = `${header}.${base64UrlEncode(JSON.stringify(payload))}`;
+  const signature = await crypto.subtle.sign(
+    'RSASSA-PKCS1-v1_5',
+    privateKey,
+    new TextEncoder().encode(signingInput)
+  );
+  return `${signingInput}.${base64UrlEncode(new Uint8Array(signature))}`;
+}
+
+/**
+ * Random opaque value for codes and tokens
+ */
+function randomToken(): string {
+  const bytes = new Uint8Array(24);
+  crypto.getRandomValues(bytes);
+  return base64UrlEncode(bytes);
+}
+
+/**
+ * Computes the PKCE S256 challenge of a code verifier
+ */
+async function computeCodeChallenge(verifier: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(verifier));
+  return base64UrlEncode(new Uint8Array(digest));
+}
+
+/**
+ * Builds a JSON response
+ */
+function json(body: unknown, status = 200, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', 'Cache-Control': 'no-store', ...headers },
+  });
+}
+
+/**
+ * Builds an OAuth error response
+ */
+function oauthError(error: string, description: string, status = 400): Response {
+  return json({ error, error_description: description }, status);
+}
+
+/**
+ * Appends parameters to a URL
+ */
+function withParams(url: string, params: Record<string, string | undefined>): string {
+  const target = new URL(url);
+  Object.entries(params).forEach(([key, value]) => {
+    if (value !== undefined) {
+      target.searchParams.set(key, value);
+    }
+  });
+  return target.toString();
+}
+
+/**
+ * Creates an in-process OIDC authorization server implementing the Scalekit
+ * endpoints (authorize, token with PKCE, userinfo, logout) for integration
+ * tests of the real plugin, e.g. under happy-dom.
+ *
+ * Browser navigations are captured instead of followed; complete them with
+ * `authorize` or `logout` and load the returned URL. Popup and iframe flows
+ * are not simulated.
+ *
+ * @example
+ * ```ts
+ * import { createFakeOidcServer } from '@scalekit-sdk/vue/testing';
+ *
+ * const server = createFakeOidcServer({ user: { sub: 'usr_1', email: 'ada@example.com' } });
+ * const uninstall = server.install();
+ *
+ * const auth = createScalekitAuth({
+ *   environmentUrl: server.issuer,
+ *   clientId: 'test-client',
+ *   redirectUri: 'http://localhost:3000/callback',
+ * });
+ * await auth.isReady();
+ *
+ * auth.loginWithRedirect();
+ * await server.nextRedirect();
+ * window.history.replaceState(null, '', server.authorize());
+ * const { user } = await auth.handleRedirectCallback();
+ *
+ * uninstall();
+ * ```
+ */
+export function createFakeOidcServer(options: FakeOidcServerOptions = {}): FakeOidcServer {
+  const issuer = (options.issuer ?? 'https://scalekit.test').replace(/\/+$/, '');
+  const { accessTokenLifetime = 3600, refreshTokens = true, refreshIdTokens = true } = options;
+
+  const endpoints = {
+    authorization: `${issuer}/oauth/authorize`,
+    token: `${issuer}/oauth/token`,
+    userinfo: `${issuer}/userinfo`,
+    endSession: `${issuer}/oidc/logout`,
+    jwks: `${issuer}/keys`,
+    revocation: `${issuer}/revoke`,
+  };
+
+  const baseFetch: typeof fetch | undefined =
+    typeof fetch !== 'undefined' ? fetch.bind(globalThis) : undefined;
+
+  const redirects: string[] = [];
+  const requests: FakeOidcRequest[] = [];
+  const redirectWaiters: Array<(url: string) => void> = [];
+
+  const codes = new Map<string, PendingCode>();
+  const accessTokens = new Map<string, { grant: TokenGrant; expiresAt: number }>();
+  const refreshTokenGrants = new Map<string, TokenGrant>();
+  let session: { user: FakeOidcUser; authTime: number; acr?: string } | null = null;
+  let signingKey: ReturnType<typeof createSigningKey> | null = null;
+
+  function getSigningKey() {
+    signingKey ??= createSigningKey();
+    return signingKey;
+  }
+
+  function recordRedirect(url: string) {
+    redirects.push(url);
+    redirectWaiters.splice(0).forEach((resolve) => resolve(url));
+  }
+
+  function lastRedirectTo(endpoint: string): string {
+    const url = [...redirects].reverse().find((redirect) => redirect.startsWith(endpoint));
+    if (!url) {
+      throw new Error(`FakeOidcServer: no navigation to ${endpoint} was captured`);
+    }
+    return url;
+  }
+
+  async function issueTokens(grant: TokenGrant, withIdToken = true): Promise<Response> {
+    const issuedAt = now();
+    const userClaims = { ...grant.user };
+    const { privateKey } = await getSigningKey();
+
+    const accessToken = await createSignedJwt(privateKey, {
+      ...userClaims,
+      iss: issuer,
+      aud: grant.clientId,
+      client_id: grant.clientId,
+      scope: grant.scope,
+      iat: issuedAt,
+      exp: issuedAt + accessTokenLifetime,
+      jti: randomToken(),
+    });
+    accessTokens.set(accessToken, { grant, expiresAt: issuedAt + accessTokenLifetime });
+
+    const idToken = withIdToken
+      ? await createSignedJwt(privateKey, {
+          ...userClaims,
+          ...(session?.acr && { acr: session.acr }),
+          iss: issuer,
+          aud: grant.clientId,
+          iat: issuedAt,
+          exp: issuedAt + accessTokenLifetime,
+          auth_time: grant.authTime,
+          ...(grant.nonce && { nonce: grant.nonce }),
+        })
+      : undefined;
+
+    let refreshToken: string | undefined;
+    if (refreshTokens) {
+      refreshToken = randomToken();
+      refreshTokenGrants.set(refreshToken, grant);
+    }
+
+    return json({
+      access_token: accessToken,
+      ...(idToken && { id_token: idToken }),
+      token_type: 'Bearer',
+      expires_in: accessTokenLifetime,
+      scope: grant.scope,
+      ...(refreshToken && { refresh_token: refreshToken }),
+    });
+  }
+
+  async function handleToken(body: Record<string, string>): Promise<Response> {
+    if (options.clientId && body.client_id !== options.clientId) {
+      return oauthError('invalid_client', 'Unknown client', 401);
+    }
+
+    if (body.grant_type === 'authorization_code') {
+      const pending = codes.get(body.code);
+      codes.delete(body.code);
+
+      if (!pending || pending.clientId !== body.client_id) {
+        return oauthError('invalid_grant', 'Invalid or reused authorization code');
+      }
+      if (pending.redirectUri !== body.redirect_uri) {
+        return oauthError('invalid_grant', 'redirect_uri does not match the authorization request');
+      }
+      if (pending.codeChallenge) {
+        const verifier = body.code_verifier ?? '';
+        const challenge =
+          pending.codeChallengeMethod === 'S256' ? await computeCodeChallenge(verifier) : verifier;
+        if (challenge !== pending.codeChallenge) {
+          return oauthError('invalid_grant', 'PKCE verification failed');
+        }
+      }
+      return issueTokens(pending.grant);
+    }
+
+    if (body.grant_type === 'refresh_token') {
+      const grant = refreshTokenGrants.get(body.refresh_token);
+      refreshTokenGrants.delete(body.refresh_token);
+
+      if (!grant || grant.clientId !== body.client_id) {
+        return oauthError('invalid_grant', 'Invalid or expired refresh token');
+      }
+      return issueTokens(grant, refreshIdTokens);
+    }
+
+    return oauthError('unsupported_grant_type', `Unsupported grant_type: ${body.grant_type}`);
+  }
+
+  function handleUserinfo(request: Request): Response {
+    const token = parseBearerToken(request.headers.get('Authorization'));
+    const issued = token ? accessTokens.get(token) : undefined;
+
+    if (!issued || issued.expiresAt <= now()) {
+      return json({ error: 'invalid_token' }, 401, {
+        'WWW-Authenticate': 'Bearer error="invalid_token"',
+      });
+    }
+    return json(issued.grant.user);
+  }
+
+  const serverFetch: typeof fetch = async (input, init) => {
+    const request = new Request(input, init);
+    const url = resolveUrl(request.url);
+
+    if (!url || !url.href.startsWith(`${issuer}/`)) {
+      if (!baseFetch) {
+        return new Response(null, { status: 404 });
+      }
+      return baseFetch(input, init);
+    }
+
+    const body =
+      request.method === 'POST'
+        ? Object.fromEntries(new URLSearchParams(await request.text()))
+        : {};
+    requests.push({ method: request.method, url: url.href, body });
+
+    const endpoint = `${url.origin}${url.pathname}`;
+    switch (endpoint) {
+      case `${issuer}/.well-known/openid-configuration`:
+        return json({
+          issuer,
+          authorization_endpoint: endpoints.authorization,
+          token_endpoint: endpoints.token,
+          userinfo_endpoint: endpoints.userinfo,
+          end_session_endpoint: endpoints.endSession,
+          jwks_uri: endpoints.jwks,
+          revocation_endpoint: endpoints.revocation,
+          response_types_supported: ['code'],
+          grant_types_supported: ['authorization_code', 'refresh_token'],
+          code_challenge_methods_supported: ['S256'],
+          subject_types_supported: ['public'],
+          id_token_signing_alg_values_supported: ['RS256'],
+        });
+
+      case endpoints.jwks:
+        return json({ keys: [(await getSigningKey()).jwk] });
+
+      case endpoints.token:
+        return request.method === 'POST'
+          ? handleToken(body)
+          : oauthError('invalid_request', 'Use POST', 405);
+
+      case endpoints.userinfo:
+        return handleUserinfo(request);
+
+      case endpoints.revocation:
+        refreshTokenGrants.delete(body.token);
+        accessTokens.delete(body.token);
+        return new Response(null, { status: 200 });
+
+      default:
+        return json({ error: 'not_found' }, 404);
+    }
+  };
+
+  function authorize(
+    url = lastRedirectTo(endpoints.authorization),
+    authorizeOptions: FakeAuthorizeOptions = {}
+  ) {
+    const { searchParams: params } = new URL(url);
+    const redirectUri = params.get('redirect_uri');
+    const clientId = params.get('client_id') ?? '';
+    const state = params.get('state') ?? undefined;
+
+    if (!redirectUri) {
+      throw new Error('FakeOidcServer: authorization request is missing redirect_uri');
+    }
+    if (options.clientId && clientId !== options.clientId) {
+      return withParams(redirectUri, { error: 'unauthorized_client', state });
+    }
+    if (authorizeOptions.error) {
+      return withParams(redirectUri, { error: authorizeOptions.error, state });
+    }
+
+    const prompt = params.get('prompt');
+    if (prompt === 'none' && !session) {
+      return withParams(redirectUri, { error: 'login_required', state });
+    }
+
+    // Interactive requests (re)authenticate and refresh auth_time
+    if (prompt !== 'none' || authorizeOptions.user) {
+      session = {
+        user: authorizeOptions.user ?? session?.user ?? options.user ?? DEFAULT_FAKE_USER,
+        authTime: now(),
+        acr: params.get('acr_values')?.split(' ')[0] ?? undefined,
+      };
+    }
+
+    const activeSession = session!;
+    const organizationId = params.get('organization_id');
+    const code = randomToken();
+
+    codes.set(code, {
+      clientId,
+      redirectUri,
+      codeChallenge: params.get('code_challenge'),
+      codeChallengeMethod: params.get('code_challenge_method') ?? 'plain',
+      grant: {
+        clientId,
+        user: organizationId
+          ? { ...activeSession.user, org_id: organizationId }
+          : activeSession.user,
+        scope: params.get('scope') ?? 'openid',
+        nonce: params.get('nonce'),
+        authTime: activeSession.authTime,
+      },
+    });
+
+    return withParams(redirectUri, { code, state });
+  }
+
+  function logout(url = lastRedirectTo(endpoints.endSession)) {
+    const { searchParams: params } = new URL(url);
+    revokeSession();
+
+    const postLogoutRedirectUri = params.get('post_logout_redirect_uri');
+    if (!postLogoutRedirectUri) {
+      return `${issuer}/`;
+    }
+    return withParams(postLogoutRedirectUri, { state: params.get('state') ?? undefined });
+  }
+
+  function revokeSession() {
+    session = null;
+    refreshTokenGrants.clear();
+  }
+
+  function install() {
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = serverFetch;
+
+    let restoreLocation = () => {};
+    if (typeof window !== 'undefined') {
+      const { location } = window;
+      const assign = location.assign;
+      const replace = location.replace;
+
+      const capture = (navigate: (url: string | URL) => void) => (url: string | URL) => {
+        const href = String(url);
+        if (href.startsWith(`${issuer}/`)) {
+          recordRedirect(href);
+        } else {
+          navigate.call(location, url);
+        }
+      };
+
+      location.assign = capture(assign);
+      location.replace = capture(replace);
+      restoreLocation = () => {
+        location.assign = assign;
+        location.replace = replace;
+      };
+    }
+
+    return () => {
+      globalThis.fetch = originalFetch;
+      restoreLocation();
+    };
+  }
+
+  return {
+    issuer,
+    redirects,
+    requests,
+    fetch: serverFetch,
+    install,
+    nextRedirect: () => new Promise<string>((resolve) => redirectWaiters.push(resolve)),
+    authorize,
+    logout,
+    revokeSession,
+  };
+}
@@ -0,0 +1,21 @@
+// Mock auth instance
+export { createMockScalekitAuth, createMockUser } from './mock-auth';
+export type {
+  CreateMockScalekitAuthOptions,
+  MockScalekitAuth,
+  MockSpyFactory,
+} from './mock-auth';
+
+// Component mounting
+export { mountWithAuth } from './mount';
+export type { MountWithAuthOptions, MountWithAuthResult } from './mount';
+
+// Fake authorization server
+export { createFakeOidcServer } from './fake-oidc-server';
+export type {
+  FakeOidcServer,
+  FakeOidcServerOptions,
+  FakeOidcUser,
+  FakeAuthorizeOptions,
+  FakeOidcRequest,
+} from './fake-oidc-server';
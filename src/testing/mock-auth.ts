@@ -0,0 +1,259 @@
+import { reactive, readonly, toRaw, type DeepReadonly } from 'vue';
+import type { ScalekitAuthInstance, ScalekitAuthMethods } from '../plugin';
+import {
+  authReducer,
+  initialAuthState,
+  InitializationTimeoutError,
+  NotAuthenticatedError,
+  type AuthAction,
+  type AuthState,
+  type OrganizationSwitchState,
+  type ScalekitUser,
+  type ScalekitUserMetadata,
+  type ScalekitUserProfile,
+  type WhenReadyOptions,
+} from '../types';
+
+/**
+ * Wraps a mock implementation, e.g. `vi.fn` or `jest.fn`, so calls can be
+ * asserted with the test runner's own matchers
+ */
+export type MockSpyFactory = <T extends (...args: never[]) => unknown>(implementation: T) => T;
+
+/**
+ * Options for createMockScalekitAuth
+ */
+export interface CreateMockScalekitAuthOptions {
+  /** Profile and metadata of the signed-in user; merged over a default test user */
+  user?: {
+    profile?: Partial<ScalekitUserProfile>;
+    metadata?: ScalekitUserMetadata;
+  } & Partial<Omit<ScalekitUser, 'profile' | 'metadata'>>;
+
+  /** Whether the user starts signed in. Defaults to true */
+  isAuthenticated?: boolean;
+
+  /** Whether the instance starts initializing. Defaults to false */
+  isLoading?: boolean;
+
+  /** Shorthand for `user.metadata.roles` */
+  roles?: string[];
+
+  /** Shorthand for `user.metadata.permissions` */
+  permissions?: string[];
+
+  /** Access token returned by getAccessToken. Defaults to the user's access token */
+  accessToken?: string;
+
+  /** Wraps every method, e.g. `vi.fn`, so they can be asserted with expect */
+  spy?: MockSpyFactory;
+}
+
+/**
+ * A ScalekitAuthInstance whose state is driven by the test
+ */
+export interface MockScalekitAuth extends ScalekitAuthInstance {
+  /** Arguments of every call, keyed by method name */
+  readonly calls: { [K in keyof ScalekitAuthMethods]: Parameters<ScalekitAuthMethods[K]>[] };
+
+  /** Runs an action through authReducer, like the plugin does */
+  dispatch: (action: AuthAction) => void;
+
+  /** Signs the user in, merging `user` over the default test user */
+  signIn: (user?: CreateMockScalekitAuthOptions['user']) => ScalekitUser;
+
+  /** Signs the user out */
+  signOut: () => void;
+
+  /** Puts the instance into the error state */
+  fail: (error: Error) => void;
+
+  /** Clears recorded calls */
+  resetCalls: () => void;
+}
+
+/**
+ * Builds a test user from partial profile and metadata
+ */
+export function createMockUser(user: CreateMockScalekitAuthOptions['user'] = {}): ScalekitUser {
+  const { profile, metadata, ...rest } = user;
+  return {
+    idToken: 'mock-id-token',
+    accessToken: 'mock-access-token',
+    scopes: ['openid', 'profile', 'email'],
+    ...rest,
+    profile: {
+      sub: 'usr_test',
+      email: 'test@example.com',
+      email_verified: true,
+      name: 'Test User',
+      ...profile,
+    },
+    metadata: {
+      organizationId: 'org_test',
+      roles: [],
+      permissions: [],
+      ...metadata,
+    },
+  };
+}
+
+/**
+ * Creates an auth instance for unit tests that satisfies ScalekitAuthInstance
+ * without a UserManager or network access.
+ *
+ * Methods record their calls and change state the way a completed flow
+ * would: `loginWithPopup` signs in, `logout` signs out. Redirect-based
+ * methods only record the call; use `signIn` to simulate the return.
+ *
+ * @example
+ * ```ts
+ * import { createMockScalekitAuth } from '@scalekit-sdk/vue/testing';
+ *
+ * const auth = createMockScalekitAuth({ roles: ['admin'], spy: vi.fn });
+ *
+ * auth.signOut();
+ * await auth.loginWithRedirect({ returnTo: '/billing' });
+ * expect(auth.loginWithRedirect).toHaveBeenCalledWith({ returnTo: '/billing' });
+ * ```
+ */
+export function createMockScalekitAuth(
+  options: CreateMockScalekitAuthOptions = {}
+): MockScalekitAuth {
+  const { isAuthenticated = true, isLoading = false, roles, permissions, spy } = options;
+
+  const defaultUser: CreateMockScalekitAuthOptions['user'] = {
+    ...options.user,
+    metadata: {
+      ...options.user?.metadata,
+      ...(roles && { roles }),
+      ...(permissions && { permissions }),
+    },
+  };
+
+  const state = reactive<AuthState>({ ...initialAuthState });
+  const organizationState = reactive<OrganizationSwitchState>({ switchingTo: null, error: null });
+
+  let markReady: () => void = () => {};
+  const ready = new Promise<void>((resolve) => {
+    markReady = resolve;
+  });
+
+  const calls = {} as { [K in keyof ScalekitAuthMethods]: unknown[][] };
+
+  function dispatch(action: AuthAction) {
+    const next = authReducer({ ...toRaw(state) }, action);
+    Object.assign(state, next);
+
+    if (!state.isLoading) {
+      markReady();
+    }
+  }
+
+  function signIn(user: CreateMockScalekitAuthOptions['user'] = defaultUser): ScalekitUser {
+    const scalekitUser = createMockUser(user);
+    dispatch({ type: 'LOGIN_COMPLETED', user: scalekitUser });
+    return scalekitUser;
+  }
+
+  function currentUser(): ScalekitUser {
+    if (!state.isAuthenticated) {
+      throw new NotAuthenticatedError();
+    }
+    return toRaw(state.user);
+  }
+
+  async function isReady(): Promise<DeepReadonly<AuthState>> {
+    await ready;
+    return auth.state;
+  }
+
+  /**
+   * Records calls and hands the implementation to the spy factory
+   */
+  function method<K extends keyof ScalekitAuthMethods>(
+    name: K,
+    implementation: (...args: Parameters<ScalekitAuthMethods[K]>) => unknown
+  ): ScalekitAuthMethods[K] {
+    calls[name] = [];
+    const recorded = (...args: Parameters<ScalekitAuthMethods[K]>) => {
+      calls[name].push(args);
+      return implementation(...args);
+    };
+    return (spy ? spy(recorded) : recorded) as unknown as ScalekitAuthMethods[K];
+  }
+
+  const redirect = async () => {};
+
+  const auth: MockScalekitAuth = {
+    state: readonly(state) as DeepReadonly<AuthState>,
+    organizationState: readonly(organizationState) as DeepReadonly<OrganizationSwitchState>,
+    userManager: null,
+    close: () => {},
+    calls: calls as MockScalekitAuth['calls'],
+
+    loginWithRedirect: method('loginWithRedirect', redirect),
+    signupWithRedirect: method('signupWithRedirect', redirect),
+    loginWithEmail: method('loginWithEmail', redirect),
+    acceptInvitation: method('acceptInvitation', redirect),
+    loginWithPopup: method('loginWithPopup', async () => signIn()),
+    logout: method('logout', async () => {
+      dispatch({ type: 'LOGOUT_COMPLETED' });
+    }),
+    handleLogoutCallback: method('handleLogoutCallback', async () => ({})),
+    getAccessToken: method('getAccessToken', async () => {
+      const { accessToken } = currentUser();
+      return options.accessToken ?? accessToken;
+    }),
+    refreshToken: method('refreshToken', async () => {
+      if (!state.isAuthenticated) {
+        return null;
+      }
+      const user = toRaw(state.user);
+      dispatch({ type: 'TOKEN_REFRESHED', user });
+      return user;
+    }),
+    requireRecentLogin: method('requireRecentLogin', async () => true),
+    switchOrganization: method('switchOrganization', async (organizationId) => {
+      const current = currentUser();
+      const user = { ...current, metadata: { ...current.metadata, organizationId } };
+      dispatch({ type: 'ORGANIZATION_SWITCHED', user });
+      return user;
+    }),
+    isReady: method('isReady', isReady),
+    whenReady: method('whenReady', (whenReadyOptions: WhenReadyOptions = {}) => {
+      const { timeout } = whenReadyOptions;
+      if (timeout === undefined || !state.isLoading) {
+        return isReady();
+      }
+
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const timedOut = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new InitializationTimeoutError(timeout)), timeout);
+      });
+
+      return Promise.race([isReady(), timedOut]).finally(() => clearTimeout(timer));
+    }),
+    handleRedirectCallback: method('handleRedirectCallback', async () => ({
+      user: state.isAuthenticated ? toRaw(state.user) : signIn(),
+    })),
+
+    dispatch,
+    signIn,
+    signOut: () => dispatch({ type: 'LOGOUT_COMPLETED' }),
+    fail: (error) => dispatch({ type: 'ERROR', error }),
+    resetCalls: () => {
+      Object.values(calls).forEach((list) => list.splice(0));
+    },
+  };
+
+  if (!isLoading) {
+    if (isAuthenticated) {
+      signIn();
+    } else {
+      dispatch({ type: 'INITIALIZED', user: null });
+    }
+  }
+
+  return auth;
+}
@@ -0,0 +1,84 @@
+import { mount, type ComponentMountingOptions, type VueWrapper } from '@vue/test-utils';
+import { SCALEKIT_AUTH_KEY } from '../constants';
+import { createAuthDirectives } from '../directives';
+import {
+  createMockScalekitAuth,
+  type CreateMockScalekitAuthOptions,
+  type MockScalekitAuth,
+} from './mock-auth';
+
+/**
+ * Options for mountWithAuth: @vue/test-utils mounting options plus the auth
+ * instance to provide
+ */
+export type MountWithAuthOptions<T> = ComponentMountingOptions<T> & {
+  /** A mock auth instance, or options to create one */
+  auth?: MockScalekitAuth | CreateMockScalekitAuthOptions;
+};
+
+/**
+ * Result of mountWithAuth
+ */
+export interface MountWithAuthResult {
+  /** The mounted component */
+  wrapper: VueWrapper;
+
+  /** The auth instance provided to the component */
+  auth: MockScalekitAuth;
+}
+
+/**
+ * Whether the value is an auth instance rather than mock options
+ */
+function isAuthInstance(value: unknown): value is MockScalekitAuth {
+  return !!value && typeof value === 'object' && 'dispatch' in value && 'state' in value;
+}
+
+/**
+ * Mounts a component with a Scalekit auth instance provided, so
+ * `useScalekitAuth`, `$scalekit` and the other composables resolve it, and
+ * `v-auth`, `v-guest`, `v-can` and `v-role` are registered, as if the plugin
+ * were installed. Directives passed in `global.directives` take precedence.
+ *
+ * @example
+ * ```ts
+ * import { mountWithAuth } from '@scalekit-sdk/vue/testing';
+ *
+ * const { wrapper, auth } = mountWithAuth(UserMenu, { auth: { roles: ['admin'] } });
+ * expect(wrapper.text()).toContain('Test User');
+ *
+ * auth.signOut();
+ * await wrapper.vm.$nextTick();
+ * expect(wrapper.text()).toContain('Sign in');
+ * ```
+ */
+export function mountWithAuth<T>(
+  component: T,
+  options: MountWithAuthOptions<T> = {} as MountWithAuthOptions<T>
+): MountWithAuthResult {
+  const { auth: authOption, ...mountingOptions } = options;
+  const auth = isAuthInstance(authOption) ? authOption : createMockScalekitAuth(authOption);
+  const global = mountingOptions.global ?? {};
+  const directives = createAuthDirectives(auth);
+
+  const wrapper = mount(component, {
+    ...mountingOptions,
+    global: {
+      ...global,
+      provide: { ...global.provide, [SCALEKIT_AUTH_KEY]: auth },
+      directives: {
+        auth: directives.auth,
+        guest: directives.guest,
+        can: directives.can,
+        role: directives.role,
+        ...global.directives,
+      },
+      config: {
+        ...global.config,
+        globalProperties: { ...global.config?.globalProperties, $scalekit: auth },
+      },
+    },
+  } as ComponentMountingOptions<T>) as VueWrapper;
+
+  return { wrapper, auth };
+}
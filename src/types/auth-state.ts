@@ -15,6 +15,15 @@ interface BaseAuthState {
 
   /** Any error that occurred during authentication */
   error: Error | null;
+
+  /** Whether a background token refresh is in progress; the user stays signed in meanwhile */
+  isRefreshing: boolean;
+
+  /** The last recoverable error, such as a failed background refresh */
+  lastError: Error | null;
+
+  /** Whether the user was signed out because the session could not be renewed */
+  sessionExpired: boolean;
 }
 
 /**
@@ -57,6 +66,17 @@ export interface ErrorState extends BaseAuthState {
   error: Error;
 }
 
+/**
+ * Progress of an organization switch
+ */
+export interface OrganizationSwitchState {
+  /** The organization being switched to, while a switch is in progress */
+  switchingTo: string | null;
+
+  /** The error from the last failed switch, if any */
+  error: Error | null;
+}
+
 /**
  * Discriminated union of all possible auth states
  */
@@ -74,8 +94,13 @@ export type AuthAction =
   | { type: 'INITIALIZED'; user: ScalekitUser | null }
   | { type: 'LOGIN_STARTED' }
   | { type: 'LOGIN_COMPLETED'; user: ScalekitUser }
+  | { type: 'LOGIN_CANCELLED'; user: ScalekitUser | null }
   | { type: 'LOGOUT_COMPLETED' }
   | { type: 'TOKEN_REFRESHED'; user: ScalekitUser }
+  | { type: 'ORGANIZATION_SWITCHED'; user: ScalekitUser }
+  | { type: 'REFRESH_STARTED' }
+  | { type: 'REFRESH_FAILED'; error: Error; willRetry: boolean }
+  | { type: 'SESSION_EXPIRED'; error: Error | null }
   | { type: 'ERROR'; error: Error };
 
 /**
@@ -86,6 +111,9 @@ export const initialAuthState: InitializingState = {
   isAuthenticated: false,
   user: null,
   error: null,
+  isRefreshing: false,
+  lastError: null,
+  sessionExpired: false,
 };
 
 /**
@@ -99,6 +127,9 @@ export function authReducer(state: AuthState, action: AuthAction): AuthState {
         isAuthenticated: false,
         user: null,
         error: null,
+        isRefreshing: false,
+        lastError: null,
+        sessionExpired: false,
       };
 
     case 'INITIALIZED':
@@ -108,6 +139,9 @@ export function authReducer(state: AuthState, action: AuthAction): AuthState {
           isAuthenticated: true,
           user: action.user,
           error: null,
+          isRefreshing: false,
+          lastError: null,
+          sessionExpired: false,
         };
       }
       return {
@@ -115,6 +149,9 @@ export function authReducer(state: AuthState, action: AuthAction): AuthState {
         isAuthenticated: false,
         user: null,
         error: null,
+        isRefreshing: false,
+        lastError: null,
+        sessionExpired: false,
       };
 
     case 'LOGIN_STARTED':
@@ -123,6 +160,9 @@ export function authReducer(state: AuthState, action: AuthAction): AuthState {
         isAuthenticated: false,
         user: null,
         error: null,
+        isRefreshing: false,
+        lastError: null,
+        sessionExpired: false,
       };
 
     case 'LOGIN_COMPLETED':
@@ -131,6 +171,32 @@ export function authReducer(state: AuthState, action: AuthAction): AuthState {
         isAuthenticated: true,
         user: action.user,
         error: null,
+        isRefreshing: false,
+        lastError: null,
+        sessionExpired: false,
+      };
+
+    case 'LOGIN_CANCELLED':
+      // Restore the session that was active before the login started
+      if (action.user) {
+        return {
+          isLoading: false,
+          isAuthenticated: true,
+          user: action.user,
+          error: null,
+          isRefreshing: false,
+          lastError: null,
+          sessionExpired: false,
+        };
+      }
+      return {
+        isLoading: false,
+        isAuthenticated: false,
+        user: null,
+        error: null,
+        isRefreshing: false,
+        lastError: null,
+        sessionExpired: false,
       };
 
     case 'LOGOUT_COMPLETED':
@@ -139,14 +205,41 @@ export function authReducer(state: AuthState, action: AuthAction): AuthState {
         isAuthenticated: false,
         user: null,
         error: null,
+        isRefreshing: false,
+        lastError: null,
+        sessionExpired: false,
       };
 
     case 'TOKEN_REFRESHED':
+    case 'ORGANIZATION_SWITCHED':
       return {
         isLoading: false,
         isAuthenticated: true,
         user: action.user,
         error: null,
+        isRefreshing: false,
+        lastError: null,
+        sessionExpired: false,
+      };
+
+    case 'REFRESH_STARTED':
+      return state.isAuthenticated ? { ...state, isRefreshing: true } : state;
+
+    case 'REFRESH_FAILED':
+      // Recoverable: the session stays active while retries run
+      return state.isAuthenticated
+        ? { ...state, isRefreshing: action.willRetry, lastError: action.error }
+        : state;
+
+    case 'SESSION_EXPIRED':
+      return {
+        isLoading: false,
+        isAuthenticated: false,
+        user: null,
+        error: null,
+        isRefreshing: false,
+        lastError: action.error,
+        sessionExpired: true,
       };
 
     case 'ERROR':
@@ -155,6 +248,9 @@ export function authReducer(state: AuthState, action: AuthAction): AuthState {
         isAuthenticated: false,
         user: null,
         error: action.error,
+        isRefreshing: false,
+        lastError: null,
+        sessionExpired: false,
       };
 
     default:
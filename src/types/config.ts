@@ -1,10 +1,93 @@
-import type { ScalekitUser } from './user';
+import type { Router } from 'vue-router';
+import type { InstallAuthGuardsOptions } from '../authGuard';
+import type { ClaimMapping, ScalekitUser } from './user';
+import type { AuthAction, AuthState } from './auth-state';
 
 /**
  * Storage type for persisting auth state
  */
 export type StorageType = 'sessionStorage' | 'localStorage' | 'memory';
 
+/**
+ * Asynchronous key-value storage backend
+ */
+export interface StorageAdapter {
+  /** Resolves with the stored value, or null when there is none */
+  get(key: string): Promise<string | null>;
+
+  /** Stores a value */
+  set(key: string, value: string): Promise<void>;
+
+  /** Removes a value */
+  remove(key: string): Promise<void>;
+
+  /** Resolves with all stored keys */
+  keys(): Promise<string[]>;
+}
+
+/**
+ * Grant used to obtain access tokens for additional audiences or scopes
+ * - `refresh_token`: refresh token grant with the requested audience/scope
+ * - `token_exchange`: RFC 8693 exchange of the session's access token
+ */
+export type AudienceTokenGrant = 'refresh_token' | 'token_exchange';
+
+/**
+ * Retry policy for background token refresh after transient failures
+ */
+export interface RefreshRetryOptions {
+  /** Number of retries after the first attempt. Defaults to 3 */
+  retries?: number;
+
+  /** Delay before the first retry, in milliseconds; doubles on each retry. Defaults to 1000 */
+  baseDelay?: number;
+
+  /** Upper bound for the delay between retries, in milliseconds. Defaults to 30000 */
+  maxDelay?: number;
+}
+
+/**
+ * OIDC provider metadata used by the SDK
+ */
+export interface OidcProviderMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  userinfo_endpoint: string;
+  end_session_endpoint: string;
+  jwks_uri: string;
+  revocation_endpoint: string;
+  introspection_endpoint: string;
+}
+
+/**
+ * How OIDC endpoints are resolved
+ */
+export type DiscoveryMode = 'auto' | 'static';
+
+/**
+ * How OIDC endpoints are resolved
+ * - `static`: the standard Scalekit endpoints below `environmentUrl` (default)
+ * - `auto`: fetched from `/.well-known/openid-configuration` and cached,
+ *   falling back to the static endpoints when the request fails
+ * - `{ mode, metadata }`: either mode with individual endpoints overridden,
+ *   e.g. for a custom domain. `mode` defaults to `static`
+ */
+export type DiscoveryOption =
+  | DiscoveryMode
+  | { mode?: DiscoveryMode; metadata?: Partial<OidcProviderMetadata> };
+
+/**
+ * Options for client-side ID token validation
+ */
+export interface IdTokenValidationOptions {
+  /** Tolerated clock difference for `exp` and `iat`, in seconds. Defaults to 60 */
+  clockSkew?: number;
+
+  /** JWKS endpoint with the signing keys. Defaults to `<environmentUrl>/keys` */
+  jwksUri?: string;
+}
+
 /**
  * Configuration for the Scalekit Auth SDK
  */
@@ -21,29 +104,184 @@ export interface ScalekitAuthConfig {
   /** The URI to redirect to after authentication */
   redirectUri: string;
 
+  /**
+   * URI loaded in a hidden iframe for silent re-authentication, such as an
+   * organization switch. Defaults to `redirectUri`
+   */
+  silentRedirectUri?: string;
+
   /** Space-separated list of OIDC scopes. Defaults to "openid profile email offline_access" */
   scopes?: string;
 
   /** The URI to redirect to after logout */
   postLogoutRedirectUri?: string;
 
-  /** Storage mechanism for auth state. Defaults to "sessionStorage" */
-  storage?: StorageType;
+  /**
+   * Storage for the signed-in session: a built-in storage type or a custom
+   * adapter, e.g. native secure storage. Defaults to "sessionStorage"
+   */
+  storage?: StorageType | StorageAdapter;
+
+  /**
+   * Storage for transient sign-in state (PKCE verifier, state and nonce)
+   * while a redirect or popup is in flight. Defaults to `storage`
+   */
+  stateStorage?: StorageType | StorageAdapter;
+
+  /**
+   * Whether to encrypt the persisted session with a non-extractable AES-GCM
+   * key kept in IndexedDB. Requires IndexedDB; cached audience tokens are then
+   * kept in memory. Defaults to false
+   */
+  encryptStorage?: boolean;
+
+  /** How OIDC endpoints are resolved. Defaults to "static" */
+  discovery?: DiscoveryOption;
+
+  /** How long discovered metadata is cached, in milliseconds. Defaults to 1 hour */
+  discoveryCacheTtl?: number;
 
   /** Whether to automatically handle the redirect callback. Defaults to true */
   autoHandleCallback?: boolean;
 
   /** Whether to enable silent token renewal. Defaults to true */
   automaticSilentRenew?: boolean;
+
+  /**
+   * Retry policy when background renewal fails with a transient error, such
+   * as a network failure. Pass false to disable retries.
+   */
+  refreshRetry?: RefreshRetryOptions | false;
+
+  /** Grant used by `getAccessToken` for other audiences or scopes. Defaults to "refresh_token" */
+  audienceTokenGrant?: AudienceTokenGrant;
+
+  /**
+   * Whether to validate ID tokens in the browser: the signature against the
+   * environment's JWKS, and the `iss`, `aud`, `azp`, `exp`, `iat` and `nonce`
+   * claims. Defaults to false
+   */
+  validateIdToken?: boolean | IdTokenValidationOptions;
+
+  /**
+   * Whether to keep the session in sync across browser tabs. Defaults to true
+   * for localStorage and storage adapters, which tabs share, and false for
+   * sessionStorage and memory. Login, token refresh and logout in one tab are
+   * applied in the others, and with a shared store a single leader tab
+   * performs silent renewal, also on behalf of the other tabs.
+   */
+  syncTabs?: boolean;
+
+  /** Claim names or paths to read roles, groups and permissions from */
+  claims?: ClaimMapping;
+}
+
+/**
+ * How an organization switch is performed
+ * - `silent`: re-authenticate in a hidden iframe, falling back to `fallback` (default)
+ * - `redirect`: redirect to Scalekit for the target organization
+ * - `popup`: re-authenticate in a popup window
+ */
+export type SwitchOrganizationMode = 'silent' | 'redirect' | 'popup';
+
+/**
+ * Options for switching organizations
+ */
+export interface SwitchOrganizationOptions {
+  /** How to perform the switch. Defaults to "silent" */
+  mode?: SwitchOrganizationMode;
+
+  /**
+   * Interactive mode to use when silent re-authentication fails, or false to
+   * fail instead. Defaults to "redirect". A "popup" fallback is opened right
+   * away, while the user's click is still being handled, and closed again if
+   * the silent attempt succeeds
+   */
+  fallback?: Exclude<SwitchOrganizationMode, 'silent'> | false;
+
+  /** App path to return to after a redirect switch. Defaults to the current page */
+  returnTo?: string;
+}
+
+/**
+ * Result of a completed organization switch
+ */
+export interface OrganizationSwitchResult {
+  /** The organization now active */
+  organizationId: string;
+
+  /** The organization active before the switch, if any */
+  previousOrganizationId?: string;
+
+  /** The re-authenticated user */
+  user: ScalekitUser;
+}
+
+/**
+ * Value of the OIDC `prompt` parameter
+ * - `none`: fail instead of showing any UI
+ * - `login`: force the user to re-enter their credentials
+ * - `consent`: ask for consent again
+ * - `select_account`: let the user pick an account
+ * - `create`: show the signup screen
+ */
+export type LoginPrompt = 'none' | 'login' | 'consent' | 'select_account' | 'create';
+
+/**
+ * Which screen of the hosted login page to show first
+ */
+export type ScreenHint = 'login' | 'signup';
+
+/**
+ * Invitation parameters carried by an invite link
+ */
+export interface InvitationParams {
+  /** Code identifying the invitation */
+  invitationCode: string;
+
+  /** Organization the user was invited to */
+  organizationId?: string;
+
+  /** Email address the invitation was sent to */
+  loginHint?: string;
+}
+
+/**
+ * Login freshness and strength a screen requires
+ */
+export interface StepUpRequirement {
+  /** Maximum time since the user last authenticated, in seconds */
+  maxAge?: number;
+
+  /** Accepted authentication context class(es); the session's `acr` must be one of them */
+  acr?: string | string[];
+}
+
+/**
+ * Options for requireRecentLogin
+ */
+export interface RequireRecentLoginOptions extends StepUpRequirement {
+  /** How to re-authenticate when the session is insufficient. Defaults to "redirect" */
+  mode?: 'redirect' | 'popup';
+
+  /** App path to return to after a redirect. Defaults to the current page */
+  returnTo?: string;
 }
 
 /**
  * Options for the login redirect
  */
-export interface LoginWithRedirectOptions {
+export interface LoginWithRedirectOptions<TAppState extends AppState = AppState> {
   /** URL to return to after login */
   returnTo?: string;
 
+  /**
+   * Application state to persist through the redirect.
+   * It is stored locally alongside the OIDC state and handed back to
+   * `onRedirectCallback` and `handleRedirectCallback` once login completes.
+   */
+  appState?: TAppState;
+
   /** Scalekit organization ID for routing to org-specific IdP */
   organizationId?: string;
 
@@ -53,10 +291,59 @@ export interface LoginWithRedirectOptions {
   /** Pre-fill the email field in the login form */
   loginHint?: string;
 
+  /** OIDC `prompt` parameter */
+  prompt?: LoginPrompt;
+
+  /** Show the signup screen instead of login. `signup` sends `prompt=create` */
+  screenHint?: ScreenHint;
+
+  /** Invitation code to accept while signing up */
+  invitationCode?: string;
+
+  /**
+   * Maximum time since the user last authenticated, in seconds (`max_age`).
+   * Scalekit asks the user to log in again if their session is older.
+   */
+  maxAge?: number;
+
+  /** Requested authentication context class(es), in order of preference (`acr_values`) */
+  acrValues?: string | string[];
+
   /** Additional query parameters to include in the auth request */
   extraQueryParams?: Record<string, string>;
 }
 
+/**
+ * Where to route the login of users from an email domain
+ */
+export interface ConnectionRoute {
+  /** Organization whose IdP should handle the login */
+  organizationId?: string;
+
+  /** Specific IdP connection to use */
+  connectionId?: string;
+}
+
+/**
+ * Resolves the connection for an email domain: either a static map keyed by
+ * domain, or a function. Resolve to null to log in with the email hint only.
+ */
+export type ConnectionResolver =
+  | Record<string, ConnectionRoute>
+  | ((
+      domain: string,
+      email: string
+    ) => ConnectionRoute | null | undefined | Promise<ConnectionRoute | null | undefined>);
+
+/**
+ * Options for email-first login
+ */
+export interface LoginWithEmailOptions<TAppState extends AppState = AppState>
+  extends Omit<LoginWithRedirectOptions<TAppState>, 'loginHint'> {
+  /** Resolver to use instead of the plugin's `resolveConnection` */
+  resolveConnection?: ConnectionResolver;
+}
+
 /**
  * Options for popup login
  */
@@ -66,22 +353,63 @@ export interface LoginWithPopupOptions extends LoginWithRedirectOptions {
 
   /** Height of the popup window */
   popupHeight?: number;
+
+  /**
+   * Time to wait for the popup to complete, in milliseconds, before it is
+   * closed and PopupTimeoutError is thrown. Defaults to 300000; 0 disables it.
+   */
+  timeout?: number;
+
+  /** Closes the popup and rejects with PopupClosedError when aborted */
+  signal?: AbortSignal;
+
+  /**
+   * Fall back to `loginWithRedirect` when the browser blocks the popup. The
+   * login then rejects with `RedirectingError` while the page navigates away
+   */
+  fallbackToRedirect?: boolean;
 }
 
+/**
+ * How the logout is performed
+ * - `redirect`: navigate to the Scalekit end-session endpoint (default)
+ * - `popup`: end the session in a popup window
+ * - `silent`: end the session in a hidden iframe
+ * - `local`: only clear the local session, without contacting Scalekit
+ */
+export type LogoutMode = 'redirect' | 'popup' | 'silent' | 'local';
+
 /**
  * Options for logout
  */
 export interface LogoutOptions {
+  /** How to perform the logout. Defaults to "redirect" */
+  mode?: LogoutMode;
+
   /** Whether to perform a federated logout (logout from IdP as well) */
   federated?: boolean;
 
   /** Custom post-logout redirect URI (overrides default) */
   postLogoutRedirectUri?: string;
 
+  /** App path to land on after logout, handed back by `handleLogoutCallback` */
+  returnTo?: string;
+
   /** Additional state to pass to the logout endpoint */
   state?: string;
 }
 
+/**
+ * Result of processing the post-logout redirect
+ */
+export interface LogoutResult {
+  /** The `returnTo` passed to `logout`, if any */
+  returnTo?: string;
+
+  /** The `state` passed to `logout`, if any */
+  state?: string;
+}
+
 /**
  * Options for getting an access token
  */
@@ -89,10 +417,24 @@ export interface GetAccessTokenOptions {
   /** Scopes to request (if different from initial config) */
   scopes?: string[];
 
+  /** API audience to request a token for */
+  audience?: string;
+
+  /** Resource indicator (RFC 8707) to request a token for */
+  resource?: string;
+
   /** Whether to force a token refresh */
   forceRefresh?: boolean;
 }
 
+/**
+ * Options for waiting on initialization
+ */
+export interface WhenReadyOptions {
+  /** Reject with InitializationTimeoutError after this many milliseconds */
+  timeout?: number;
+}
+
 /**
  * App state that can be passed through the auth flow
  */
@@ -101,6 +443,17 @@ export interface AppState {
   [key: string]: unknown;
 }
 
+/**
+ * Result of processing the redirect callback
+ */
+export interface RedirectLoginResult<TAppState extends AppState = AppState> {
+  /** The authenticated user */
+  user: ScalekitUser;
+
+  /** The app state passed to `loginWithRedirect`, if any */
+  appState?: TAppState;
+}
+
 /**
  * Callback invoked after redirect authentication completes
  */
@@ -109,6 +462,19 @@ export type OnRedirectCallback = (result: {
   user?: ScalekitUser;
 }) => void;
 
+/**
+ * Resolves where to navigate after redirect authentication completes.
+ * Return a path to override the destination, `false` to skip navigation,
+ * or `undefined` to use the saved `returnTo`.
+ */
+export type ResolveReturnTo = (result: RedirectLoginResult) => string | false | undefined;
+
+/**
+ * Called after every state transition with the state before and after the
+ * action. `next` is the same object as `prev` when the action changed nothing.
+ */
+export type OnStateChange = (prev: AuthState, next: AuthState, action: AuthAction) => void;
+
 /**
  * Options for the Scalekit Auth plugin
  */
@@ -116,6 +482,36 @@ export interface ScalekitAuthPluginOptions extends ScalekitAuthConfig {
   /** Callback invoked after redirect authentication completes */
   onRedirectCallback?: OnRedirectCallback;
 
+  /**
+   * Vue Router instance. When provided, the SDK navigates to the saved
+   * `returnTo` after the redirect callback has been handled.
+   */
+  router?: Router;
+
+  /** Route to navigate to when no valid `returnTo` was saved. Defaults to "/" */
+  defaultReturnTo?: string;
+
+  /** Hook to override or skip the post-login navigation */
+  resolveReturnTo?: ResolveReturnTo;
+
+  /**
+   * Installs a global guard enforcing route meta requirements on `router`.
+   * Pass options to configure it. Defaults to false.
+   */
+  installGuards?: boolean | InstallAuthGuardsOptions;
+
+  /** Resolves the organization or connection for `loginWithEmail` from the email domain */
+  resolveConnection?: ConnectionResolver;
+
+  /** Whether to register the v-auth, v-guest, v-can and v-role directives. Defaults to true */
+  registerDirectives?: boolean;
+
+  /** Called after the user has switched to another organization in place */
+  onOrganizationSwitched?: (result: OrganizationSwitchResult) => void;
+
+  /** Called after every state transition, e.g. to log or record an action history */
+  onStateChange?: OnStateChange;
+
   /** Custom error handler for authentication errors */
   onError?: (error: Error) => void;
 }
@@ -64,6 +64,66 @@ export class ConfigurationError extends ScalekitAuthError {
   }
 }
 
+/**
+ * Error thrown when the browser blocks the login popup
+ */
+export class PopupBlockedError extends ScalekitAuthError {
+  constructor() {
+    super('The login popup was blocked by the browser', 'POPUP_BLOCKED_ERROR');
+    this.name = 'PopupBlockedError';
+  }
+}
+
+/**
+ * Error thrown when the login popup is closed or cancelled before login completes
+ */
+export class PopupClosedError extends ScalekitAuthError {
+  constructor(message = 'The login popup was closed before login completed', cause?: Error) {
+    super(message, 'POPUP_CLOSED_ERROR', cause);
+    this.name = 'PopupClosedError';
+  }
+}
+
+/**
+ * Error thrown when login in the popup does not complete within the timeout
+ */
+export class PopupTimeoutError extends ScalekitAuthError {
+  /** The timeout that elapsed, in milliseconds */
+  public readonly timeout: number;
+
+  constructor(timeout: number, cause?: Error) {
+    super(`The login popup did not complete within ${timeout}ms`, 'POPUP_TIMEOUT_ERROR', cause);
+    this.name = 'PopupTimeoutError';
+    this.timeout = timeout;
+  }
+}
+
+/**
+ * Rejection of a popup login that continues as a redirect because the popup
+ * was blocked (`fallbackToRedirect`). The page is navigating to Scalekit, and
+ * the login completes in the redirect callback.
+ */
+export class RedirectingError extends ScalekitAuthError {
+  constructor() {
+    super('The popup was blocked; login continues through a redirect', 'REDIRECTING_ERROR');
+    this.name = 'RedirectingError';
+  }
+}
+
+/**
+ * Error thrown when switching to another organization fails
+ */
+export class OrganizationSwitchError extends ScalekitAuthError {
+  /** The organization that could not be switched to */
+  public readonly organizationId: string;
+
+  constructor(message: string, organizationId: string, cause?: Error) {
+    super(message, 'ORGANIZATION_SWITCH_ERROR', cause);
+    this.name = 'OrganizationSwitchError';
+    this.organizationId = organizationId;
+  }
+}
+
 /**
  * Error thrown when a callback processing fails
  */
@@ -74,6 +134,34 @@ export class CallbackError extends ScalekitAuthError {
   }
 }
 
+/**
+ * Check of an ID token that failed validation
+ */
+export type TokenValidationFailure =
+  | 'malformed'
+  | 'keys'
+  | 'signature'
+  | 'issuer'
+  | 'audience'
+  | 'authorized_party'
+  | 'expired'
+  | 'issued_at'
+  | 'nonce';
+
+/**
+ * Error thrown when an ID token fails client-side validation
+ */
+export class TokenValidationError extends ScalekitAuthError {
+  /** The check that failed */
+  public readonly reason: TokenValidationFailure;
+
+  constructor(message: string, reason: TokenValidationFailure, cause?: Error) {
+    super(message, 'TOKEN_VALIDATION_ERROR', cause);
+    this.name = 'TokenValidationError';
+    this.reason = reason;
+  }
+}
+
 /**
  * Error thrown when trying to use auth methods before initialization
  */
@@ -87,6 +175,23 @@ export class NotInitializedError extends ScalekitAuthError {
   }
 }
 
+/**
+ * Error thrown when the SDK does not finish initializing within a timeout
+ */
+export class InitializationTimeoutError extends ScalekitAuthError {
+  /** The timeout that elapsed, in milliseconds */
+  public readonly timeout: number;
+
+  constructor(timeout: number) {
+    super(
+      `Scalekit Auth SDK did not finish initializing within ${timeout}ms`,
+      'INITIALIZATION_TIMEOUT_ERROR'
+    );
+    this.name = 'InitializationTimeoutError';
+    this.timeout = timeout;
+  }
+}
+
 /**
  * Error thrown when the user is not authenticated but auth is required
  */
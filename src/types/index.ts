@@ -1,13 +1,37 @@
 // Config types
 export type {
   StorageType,
+  StorageAdapter,
+  AudienceTokenGrant,
+  RefreshRetryOptions,
+  IdTokenValidationOptions,
+  DiscoveryMode,
+  DiscoveryOption,
+  OidcProviderMetadata,
   ScalekitAuthConfig,
   LoginWithRedirectOptions,
   LoginWithPopupOptions,
+  LoginWithEmailOptions,
+  ConnectionRoute,
+  ConnectionResolver,
+  LoginPrompt,
+  ScreenHint,
+  InvitationParams,
+  StepUpRequirement,
+  RequireRecentLoginOptions,
+  LogoutMode,
   LogoutOptions,
+  LogoutResult,
   GetAccessTokenOptions,
+  WhenReadyOptions,
+  SwitchOrganizationMode,
+  SwitchOrganizationOptions,
+  OrganizationSwitchResult,
   AppState,
+  RedirectLoginResult,
   OnRedirectCallback,
+  OnStateChange,
+  ResolveReturnTo,
   ScalekitAuthPluginOptions,
 } from './config';
 
@@ -16,6 +40,7 @@ export type {
   ScalekitUserProfile,
   ScalekitUserMetadata,
   ScalekitUser,
+  ClaimMapping,
 } from './user';
 export { mapOidcUserToScalekitUser } from './user';
 
@@ -27,6 +52,7 @@ export type {
   UnauthenticatedState,
   AuthenticatedState,
   ErrorState,
+  OrganizationSwitchState,
 } from './auth-state';
 export { initialAuthState, authReducer } from './auth-state';
 
@@ -34,10 +60,18 @@ export { initialAuthState, authReducer } from './auth-state';
 export {
   ScalekitAuthError,
   LoginError,
+  PopupBlockedError,
+  PopupClosedError,
+  PopupTimeoutError,
+  RedirectingError,
   TokenRefreshError,
   LogoutError,
   ConfigurationError,
   CallbackError,
+  TokenValidationError,
+  OrganizationSwitchError,
   NotInitializedError,
+  InitializationTimeoutError,
   NotAuthenticatedError,
 } from './errors';
+export type { TokenValidationFailure } from './errors';
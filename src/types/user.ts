@@ -1,3 +1,5 @@
+import { decodeJwtPayload } from '../utils/jwt';
+
 /**
  * User profile information from OIDC claims
  */
@@ -51,6 +53,40 @@ export interface ScalekitUserMetadata {
 
   /** Groups the user belongs to */
   groups?: string[];
+
+  /** Permissions granted to the user */
+  permissions?: string[];
+
+  /** IDs of all organizations the user can switch to */
+  organizations?: string[];
+
+  /** When the user last authenticated (Unix timestamp) */
+  authTime?: number;
+
+  /** Authentication context class of the session */
+  acr?: string;
+
+  /** Authentication methods used, such as "pwd" or "mfa" */
+  amr?: string[];
+}
+
+/**
+ * Claim names used to read authorization data from the ID token, userinfo
+ * or access token. Each entry is a claim name, such as a namespaced
+ * `https://example.com/roles`, or a dot-separated path like `realm_access.roles`.
+ */
+export interface ClaimMapping {
+  /** Claim holding the user's roles. Defaults to "roles" */
+  roles?: string;
+
+  /** Claim holding the user's groups. Defaults to "groups" */
+  groups?: string;
+
+  /** Claim holding the user's permissions. Defaults to "permissions" */
+  permissions?: string;
+
+  /** Claim holding the IDs of the user's organizations. Defaults to "organizations" */
+  organizations?: string;
 }
 
 /**
@@ -79,26 +115,76 @@ export interface ScalekitUser {
   scopes: string[];
 }
 
+/**
+ * Reads a claim by name, falling back to a dot-separated path
+ */
+function readClaim(claims: Record<string, unknown>, path: string): unknown {
+  if (path in claims) {
+    return claims[path];
+  }
+
+  return path.split('.').reduce<unknown>(
+    (value, key) =>
+      value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined,
+    claims
+  );
+}
+
+/**
+ * Normalizes a claim value to a list of strings.
+ * Space-separated strings (as used by `scope`) are split.
+ */
+function toStringList(value: unknown): string[] | undefined {
+  if (Array.isArray(value)) {
+    return value.filter((item): item is string => typeof item === 'string');
+  }
+  if (typeof value === 'string') {
+    return value.split(/\s+/).filter(Boolean);
+  }
+  return undefined;
+}
+
 /**
  * Creates a ScalekitUser from oidc-client-ts User object
  */
-export function mapOidcUserToScalekitUser(oidcUser: {
-  profile: Record<string, unknown>;
-  id_token?: string;
-  access_token: string;
-  expires_at?: number;
-  refresh_token?: string;
-  scope?: string;
-}): ScalekitUser {
+export function mapOidcUserToScalekitUser(
+  oidcUser: {
+    profile: Record<string, unknown>;
+    id_token?: string;
+    access_token: string;
+    expires_at?: number;
+    refresh_token?: string;
+    scope?: string;
+  },
+  claimMapping: ClaimMapping = {}
+): ScalekitUser {
   const profile = oidcUser.profile as ScalekitUserProfile;
 
+  // Authorization claims are often only present in the access token
+  let accessTokenClaims: Record<string, unknown> | null | undefined;
+  const readList = (path: string): string[] | undefined => {
+    const fromProfile = toStringList(readClaim(profile, path));
+    if (fromProfile) {
+      return fromProfile;
+    }
+    if (accessTokenClaims === undefined) {
+      accessTokenClaims = decodeJwtPayload(oidcUser.access_token);
+    }
+    return accessTokenClaims ? toStringList(readClaim(accessTokenClaims, path)) : undefined;
+  };
+
   // Extract Scalekit-specific claims
   const metadata: ScalekitUserMetadata = {
     organizationId: profile['org_id'] as string | undefined,
     connectionId: profile['connection_id'] as string | undefined,
     identityProvider: profile['idp'] as string | undefined,
-    roles: profile['roles'] as string[] | undefined,
-    groups: profile['groups'] as string[] | undefined,
+    roles: readList(claimMapping.roles ?? 'roles'),
+    groups: readList(claimMapping.groups ?? 'groups'),
+    permissions: readList(claimMapping.permissions ?? 'permissions'),
+    organizations: readList(claimMapping.organizations ?? 'organizations'),
+    authTime: typeof profile['auth_time'] === 'number' ? profile['auth_time'] : undefined,
+    acr: profile['acr'] as string | undefined,
+    amr: toStringList(profile['amr']),
   };
 
   return {
@@ -1,5 +1,11 @@
 import { ref, watch, type Ref } from 'vue';
 import { useScalekitAuth } from './useScalekitAuth';
+import type { GetAccessTokenOptions } from './types';
+
+/**
+ * Options for the useAccessToken composable
+ */
+export type UseAccessTokenOptions = Pick<GetAccessTokenOptions, 'audience' | 'resource' | 'scopes'>;
 
 /**
  * Return type for the useAccessToken composable
@@ -31,6 +37,12 @@ export interface UseAccessTokenReturn {
  *
  * const { accessToken, isLoading, error, refresh } = useAccessToken();
  *
+ * // Token for another API, cached per audience and scopes
+ * const { accessToken: billingToken } = useAccessToken({
+ *   audience: 'https://billing.example.com',
+ *   scopes: ['invoices:read'],
+ * });
+ *
  * async function callApi() {
  *   if (!accessToken.value) return;
  *
@@ -53,9 +65,10 @@ export interface UseAccessTokenReturn {
  * </template>
  * ```
  *
+ * @param options Audience, resource and scopes to request the token for
  * @returns Object containing the token, loading state, error, and refresh function
  */
-export function useAccessToken(): UseAccessTokenReturn {
+export function useAccessToken(options: UseAccessTokenOptions = {}): UseAccessTokenReturn {
   const { isAuthenticated, user, getAccessToken, isLoading: authLoading } = useScalekitAuth();
 
   const accessToken = ref<string | null>(null);
@@ -78,7 +91,7 @@ export function useAccessToken(): UseAccessTokenReturn {
     error.value = null;
 
     try {
-      const token = await getAccessToken();
+      const token = await getAccessToken(options);
       accessToken.value = token;
       isLoading.value = false;
     } catch (err) {
@@ -100,7 +113,7 @@ export function useAccessToken(): UseAccessTokenReturn {
     error.value = null;
 
     try {
-      const token = await getAccessToken({ forceRefresh: true });
+      const token = await getAccessToken({ ...options, forceRefresh: true });
       accessToken.value = token;
     } catch (err) {
       error.value = err instanceof Error ? err : new Error('Failed to refresh access token');
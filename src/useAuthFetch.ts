@@ -0,0 +1,115 @@
+import { ref, shallowRef, getCurrentScope, onScopeDispose, type Ref } from 'vue';
+import { useScalekitAuth } from './useScalekitAuth';
+import { createAuthFetch, type AuthFetch, type AuthFetchOptions } from './authFetch';
+
+/**
+ * Return type for the useAuthFetch composable
+ */
+export interface UseAuthFetchReturn {
+  /** Fetch with bearer injection; updates the reactive state below */
+  authFetch: AuthFetch;
+
+  /** Whether any request started through authFetch is in flight */
+  isLoading: Ref<boolean>;
+
+  /** The error of the last failed request, if any */
+  error: Ref<Error | null>;
+
+  /** The response of the last completed request, if any */
+  response: Ref<Response | null>;
+
+  /** Aborts all in-flight requests started through authFetch */
+  abort: (reason?: unknown) => void;
+}
+
+/**
+ * Composable that returns an authenticated fetch with reactive request state.
+ *
+ * Requests are aborted automatically when the component unmounts. A `signal`
+ * passed in the request init is honoured as well.
+ *
+ * @example
+ * ```vue
+ * <script setup>
+ * import { ref } from 'vue';
+ * import { useAuthFetch } from '@scalekit/vue-sdk';
+ *
+ * const { authFetch, isLoading, error, abort } = useAuthFetch({
+ *   allowedOrigins: ['https://api.example.com'],
+ * });
+ *
+ * const invoices = ref([]);
+ *
+ * async function load() {
+ *   const response = await authFetch('https://api.example.com/invoices');
+ *   invoices.value = await response.json();
+ * }
+ * </script>
+ *
+ * <template>
+ *   <button @click="load" :disabled="isLoading">Load invoices</button>
+ *   <button v-if="isLoading" @click="abort()">Cancel</button>
+ *   <p v-if="error">{{ error.message }}</p>
+ * </template>
+ * ```
+ *
+ * @param options Configuration options passed to createAuthFetch
+ * @returns The fetch function, request state and an abort function
+ */
+export function useAuthFetch(options: AuthFetchOptions = {}): UseAuthFetchReturn {
+  const auth = useScalekitAuth();
+  const baseAuthFetch = createAuthFetch(auth, options);
+
+  const isLoading = ref(false);
+  const error = ref<Error | null>(null);
+  const response = shallowRef<Response | null>(null);
+  const controllers = new Set<AbortController>();
+
+  async function authFetch(input: RequestInfo | URL, init: RequestInit = {}): Promise<Response> {
+    const controller = new AbortController();
+    const callerSignal = init.signal;
+
+    // Forward an abort from the caller's own signal
+    if (callerSignal) {
+      if (callerSignal.aborted) {
+        controller.abort(callerSignal.reason);
+      } else {
+        callerSignal.addEventListener('abort', () => controller.abort(callerSignal.reason), {
+          once: true,
+        });
+      }
+    }
+
+    controllers.add(controller);
+    isLoading.value = true;
+    error.value = null;
+
+    try {
+      const result = await baseAuthFetch(input, { ...init, signal: controller.signal });
+      response.value = result;
+      return result;
+    } catch (err) {
+      error.value = err instanceof Error ? err : new Error('Request failed');
+      throw err;
+    } finally {
+      controllers.delete(controller);
+      isLoading.value = controllers.size > 0;
+    }
+  }
+
+  function abort(reason?: unknown): void {
+    controllers.forEach((controller) => controller.abort(reason));
+  }
+
+  if (getCurrentScope()) {
+    onScopeDispose(() => abort());
+  }
+
+  return {
+    authFetch,
+    isLoading,
+    error,
+    response,
+    abort,
+  };
+}
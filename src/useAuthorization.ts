@@ -0,0 +1,70 @@
+import { computed, type ComputedRef } from 'vue';
+import { useScalekitAuth } from './useScalekitAuth';
+import {
+  userHasRole,
+  userHasAnyRole,
+  userHasPermission,
+  userHasGroup,
+} from './utils/authorization';
+
+/**
+ * Return type for the useAuthorization composable
+ */
+export interface UseAuthorizationReturn {
+  /** Roles assigned to the user */
+  roles: ComputedRef<string[]>;
+
+  /** Permissions granted to the user */
+  permissions: ComputedRef<string[]>;
+
+  /** Groups the user belongs to */
+  groups: ComputedRef<string[]>;
+
+  /** Whether the user has the given role */
+  hasRole: (role: string) => boolean;
+
+  /** Whether the user has at least one of the given roles */
+  hasAnyRole: (roles: string[]) => boolean;
+
+  /** Whether the user has the given permission, or all of the given permissions */
+  hasPermission: (permission: string | string[]) => boolean;
+
+  /** Whether the user belongs to the given group */
+  hasGroup: (group: string) => boolean;
+}
+
+/**
+ * Composable to check the current user's roles, permissions and groups.
+ *
+ * The helpers read reactive auth state, so templates and computed properties
+ * using them update when the user changes.
+ *
+ * @example
+ * ```vue
+ * <script setup>
+ * import { useAuthorization } from '@scalekit/vue-sdk';
+ *
+ * const { hasRole, hasPermission } = useAuthorization();
+ * </script>
+ *
+ * <template>
+ *   <AdminPanel v-if="hasRole('admin')" />
+ *   <button v-if="hasPermission('invoices:write')">New invoice</button>
+ * </template>
+ * ```
+ *
+ * @returns The user's roles, permissions and groups, and helpers to check them
+ */
+export function useAuthorization(): UseAuthorizationReturn {
+  const { user } = useScalekitAuth();
+
+  return {
+    roles: computed(() => user.value?.metadata.roles ?? []),
+    permissions: computed(() => user.value?.metadata.permissions ?? []),
+    groups: computed(() => user.value?.metadata.groups ?? []),
+    hasRole: (role) => userHasRole(user.value, role),
+    hasAnyRole: (roles) => userHasAnyRole(user.value, roles),
+    hasPermission: (permission) => userHasPermission(user.value, permission),
+    hasGroup: (group) => userHasGroup(user.value, group),
+  };
+}
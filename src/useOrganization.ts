@@ -0,0 +1,81 @@
+import { computed, type ComputedRef } from 'vue';
+import { resolveAuth } from './utils/auth-instance';
+import type { ScalekitUser, SwitchOrganizationOptions } from './types';
+
+/**
+ * Return type for the useOrganization composable
+ */
+export interface UseOrganizationReturn {
+  /** The organization of the current session */
+  organizationId: ComputedRef<string | null>;
+
+  /** IDs of the organizations the user can switch to */
+  organizations: ComputedRef<string[]>;
+
+  /** Whether an organization switch is in progress */
+  isSwitching: ComputedRef<boolean>;
+
+  /** The error from the last failed switch, if any */
+  error: ComputedRef<Error | null>;
+
+  /** Re-authenticates against another organization */
+  switchOrganization: (
+    organizationId: string,
+    options?: SwitchOrganizationOptions
+  ) => Promise<ScalekitUser | null>;
+}
+
+/**
+ * Composable to read the current organization and switch between the
+ * organizations available to the user.
+ *
+ * The list of organizations is read from the `organizations` claim (see the
+ * `claims` plugin option) and always includes the current organization.
+ *
+ * @example
+ * ```vue
+ * <script setup>
+ * import { useOrganization } from '@scalekit/vue-sdk';
+ *
+ * const { organizationId, organizations, isSwitching, switchOrganization } = useOrganization();
+ * </script>
+ *
+ * <template>
+ *   <select
+ *     :value="organizationId"
+ *     :disabled="isSwitching"
+ *     @change="switchOrganization($event.target.value)"
+ *   >
+ *     <option v-for="id in organizations" :key="id" :value="id">{{ id }}</option>
+ *   </select>
+ * </template>
+ * ```
+ *
+ * @returns The current organization, the available organizations and a switch method
+ */
+export function useOrganization(): UseOrganizationReturn {
+  const auth = resolveAuth();
+
+  if (!auth) {
+    throw new Error(
+      'useOrganization must be used within a Vue app that has installed the ScalekitAuthPlugin. ' +
+        'Make sure you have called app.use(ScalekitAuthPlugin, options) before using this composable.'
+    );
+  }
+
+  const organizationId = computed(() => auth.state.user?.metadata.organizationId ?? null);
+
+  return {
+    organizationId,
+    organizations: computed(() => {
+      const available = [...(auth.state.user?.metadata.organizations ?? [])];
+      if (organizationId.value && !available.includes(organizationId.value)) {
+        available.unshift(organizationId.value);
+      }
+      return available;
+    }),
+    isSwitching: computed(() => auth.organizationState.switchingTo !== null),
+    error: computed(() => auth.organizationState.error as Error | null),
+    switchOrganization: auth.switchOrganization,
+  };
+}
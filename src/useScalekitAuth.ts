@@ -1,18 +1,31 @@
-import { inject, computed, type ComputedRef } from 'vue';
-import { SCALEKIT_AUTH_KEY } from './constants';
-import type { ScalekitAuthInstance } from './plugin';
+import { computed, type ComputedRef, type DeepReadonly } from 'vue';
+import { resolveAuth } from './utils/auth-instance';
 import type {
   ScalekitUser,
   LoginWithRedirectOptions,
   LoginWithPopupOptions,
   LogoutOptions,
+  LogoutResult,
   GetAccessTokenOptions,
+  AppState,
+  RedirectLoginResult,
+  WhenReadyOptions,
+  SwitchOrganizationOptions,
+  RequireRecentLoginOptions,
+  LoginWithEmailOptions,
+  AuthState,
 } from './types';
 
 /**
  * Return type for the useScalekitAuth composable
  */
 export interface UseScalekitAuthReturn {
+  /**
+   * The reactive auth state. Narrow on `isAuthenticated` to get a typed user:
+   * `if (state.isAuthenticated) state.user.profile.email`
+   */
+  state: DeepReadonly<AuthState>;
+
   /** Whether the SDK is still initializing */
   isLoading: ComputedRef<boolean>;
 
@@ -25,8 +38,41 @@ export interface UseScalekitAuthReturn {
   /** Any error that occurred during authentication */
   error: ComputedRef<Error | null>;
 
+  /** Whether a background token refresh is in progress */
+  isRefreshing: ComputedRef<boolean>;
+
+  /** The last recoverable error, such as a failed background refresh */
+  lastError: ComputedRef<Error | null>;
+
+  /** Whether the user was signed out because the session could not be renewed */
+  sessionExpired: ComputedRef<boolean>;
+
+  /** Resolves with the auth state once initialization has finished */
+  isReady: () => Promise<DeepReadonly<AuthState>>;
+
+  /** Like isReady, but rejects with InitializationTimeoutError after `timeout` ms */
+  whenReady: (options?: WhenReadyOptions) => Promise<DeepReadonly<AuthState>>;
+
   /** Initiates login by redirecting to the authorization server */
-  loginWithRedirect: (options?: LoginWithRedirectOptions) => Promise<void>;
+  loginWithRedirect: <TAppState extends AppState = AppState>(
+    options?: LoginWithRedirectOptions<TAppState>
+  ) => Promise<void>;
+
+  /** Initiates signup by redirecting to the hosted signup screen */
+  signupWithRedirect: <TAppState extends AppState = AppState>(
+    options?: LoginWithRedirectOptions<TAppState>
+  ) => Promise<void>;
+
+  /** Initiates login for an email address, routed by its domain */
+  loginWithEmail: <TAppState extends AppState = AppState>(
+    email: string,
+    options?: LoginWithEmailOptions<TAppState>
+  ) => Promise<void>;
+
+  /** Accepts the invitation in the current URL by redirecting to signup */
+  acceptInvitation: <TAppState extends AppState = AppState>(
+    options?: LoginWithRedirectOptions<TAppState>
+  ) => Promise<void>;
 
   /** Initiates login in a popup window */
   loginWithPopup: (options?: LoginWithPopupOptions) => Promise<ScalekitUser>;
@@ -34,14 +80,28 @@ export interface UseScalekitAuthReturn {
   /** Logs the user out */
   logout: (options?: LogoutOptions) => Promise<void>;
 
+  /** Handles the post-logout callback and returns the state passed to logout */
+  handleLogoutCallback: () => Promise<LogoutResult>;
+
   /** Gets the current access token, refreshing if necessary */
   getAccessToken: (options?: GetAccessTokenOptions) => Promise<string>;
 
   /** Silently refreshes the access token */
   refreshToken: () => Promise<ScalekitUser | null>;
 
+  /** Re-authenticates only if the session is older or weaker than required */
+  requireRecentLogin: (options?: RequireRecentLoginOptions) => Promise<boolean>;
+
+  /** Re-authenticates against another organization */
+  switchOrganization: (
+    organizationId: string,
+    options?: SwitchOrganizationOptions
+  ) => Promise<ScalekitUser | null>;
+
   /** Handles the redirect callback (usually called automatically) */
-  handleRedirectCallback: () => Promise<ScalekitUser>;
+  handleRedirectCallback: <TAppState extends AppState = AppState>() => Promise<
+    RedirectLoginResult<TAppState>
+  >;
 }
 
 /**
@@ -75,10 +135,17 @@ export interface UseScalekitAuthReturn {
  * </template>
  * ```
  *
+ * Outside components, call it inside `app.runWithContext()`, or anywhere
+ * once the plugin has been installed:
+ *
+ * ```ts
+ * const { getAccessToken } = app.runWithContext(() => useScalekitAuth());
+ * ```
+ *
  * @returns The authentication state and methods
  */
 export function useScalekitAuth(): UseScalekitAuthReturn {
-  const auth = inject<ScalekitAuthInstance>(SCALEKIT_AUTH_KEY);
+  const auth = resolveAuth();
 
   if (!auth) {
     throw new Error(
@@ -88,15 +155,27 @@ export function useScalekitAuth(): UseScalekitAuthReturn {
   }
 
   return {
+    state: auth.state,
     isLoading: computed(() => auth.state.isLoading),
     isAuthenticated: computed(() => auth.state.isAuthenticated),
     user: computed(() => auth.state.user as ScalekitUser | null),
     error: computed(() => auth.state.error as Error | null),
+    isRefreshing: computed(() => auth.state.isRefreshing),
+    lastError: computed(() => auth.state.lastError as Error | null),
+    sessionExpired: computed(() => auth.state.sessionExpired),
+    isReady: auth.isReady,
+    whenReady: auth.whenReady,
     loginWithRedirect: auth.loginWithRedirect,
+    signupWithRedirect: auth.signupWithRedirect,
+    loginWithEmail: auth.loginWithEmail,
+    acceptInvitation: auth.acceptInvitation,
     loginWithPopup: auth.loginWithPopup,
     logout: auth.logout,
+    handleLogoutCallback: auth.handleLogoutCallback,
     getAccessToken: auth.getAccessToken,
     refreshToken: auth.refreshToken,
+    requireRecentLogin: auth.requireRecentLogin,
+    switchOrganization: auth.switchOrganization,
     handleRedirectCallback: auth.handleRedirectCallback,
   };
 }
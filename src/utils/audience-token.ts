@@ -0,0 +1,180 @@
+import { STORAGE_KEY_PREFIX, TOKEN_EXPIRY_BUFFER_SECONDS } from '../constants';
+import type { AudienceTokenGrant, GetAccessTokenOptions } from '../types';
+import { TokenRefreshError } from '../types/errors';
+
+/**
+ * Storage key prefix for audience-scoped access tokens
+ */
+const TOKEN_CACHE_PREFIX = `${STORAGE_KEY_PREFIX}.token.`;
+
+const TOKEN_EXCHANGE_GRANT = 'urn:ietf:params:oauth:grant-type:token-exchange';
+const ACCESS_TOKEN_TYPE = 'urn:ietf:params:oauth:token-type:access_token';
+
+/**
+ * Access token cached for a specific audience and scope set
+ */
+export interface CachedAccessToken {
+  accessToken: string;
+
+  /** Expiry as a Unix timestamp (seconds) */
+  expiresAt?: number;
+
+  scope?: string;
+}
+
+/**
+ * Response from the token endpoint
+ */
+interface TokenEndpointResponse {
+  access_token: string;
+  expires_in?: number;
+  refresh_token?: string;
+  scope?: string;
+}
+
+/**
+ * Whether the options ask for a token other than the session's default token
+ */
+export function isAudienceTokenRequest(options: GetAccessTokenOptions): boolean {
+  return Boolean(options.audience || options.resource || options.scopes?.length);
+}
+
+/**
+ * Builds the cache key for an audience, resource and scope combination. Each
+ * part is labelled, since the token endpoint treats `audience` and `resource`
+ * differently even for the same value.
+ */
+export function getAudienceTokenKey(options: GetAccessTokenOptions): string {
+  const scopes = [...(options.scopes ?? [])].sort().join(' ');
+  return `${TOKEN_CACHE_PREFIX}aud:${options.audience ?? ''}|res:${options.resource ?? ''}|${scopes}`;
+}
+
+/**
+ * Checks if a token is expired, or will be within TOKEN_EXPIRY_BUFFER_SECONDS
+ */
+export function isTokenExpiring(expiresAt?: number): boolean {
+  if (!expiresAt) {
+    return false;
+  }
+  return expiresAt - TOKEN_EXPIRY_BUFFER_SECONDS <= Date.now() / 1000;
+}
+
+/**
+ * Reads a cached token, ignoring entries that are about to expire
+ */
+export function readCachedToken(storage: Storage, key: string): CachedAccessToken | null {
+  const raw = storage.getItem(key);
+  if (!raw) {
+    return null;
+  }
+
+  try {
+    const cached = JSON.parse(raw) as CachedAccessToken;
+    if (!cached.accessToken || isTokenExpiring(cached.expiresAt)) {
+      storage.removeItem(key);
+      return null;
+    }
+    return cached;
+  } catch {
+    storage.removeItem(key);
+    return null;
+  }
+}
+
+/**
+ * Writes a token to the cache
+ */
+export function writeCachedToken(storage: Storage, key: string, token: CachedAccessToken): void {
+  storage.setItem(key, JSON.stringify(token));
+}
+
+/**
+ * Removes all cached audience tokens
+ */
+export function clearCachedTokens(storage: Storage): void {
+  const keys: string[] = [];
+  for (let i = 0; i < storage.length; i++) {
+    const key = storage.key(i);
+    if (key?.startsWith(TOKEN_CACHE_PREFIX)) {
+      keys.push(key);
+    }
+  }
+  keys.forEach((key) => storage.removeItem(key));
+}
+
+/**
+ * Requests an access token for a specific audience and/or scopes from the token endpoint.
+ *
+ * With the `refresh_token` grant the session's refresh token is used; if the server
+ * rotates it, the new refresh token is returned so the caller can persist it.
+ * With `token_exchange` the session's access token is exchanged (RFC 8693).
+ */
+export async function requestAudienceToken(params: {
+  tokenEndpoint: string;
+  clientId: string;
+  grant: AudienceTokenGrant;
+  options: GetAccessTokenOptions;
+  accessToken: string;
+  refreshToken?: string;
+}): Promise<CachedAccessToken & { refreshToken?: string }> {
+  const { tokenEndpoint, clientId, grant, options, accessToken, refreshToken } = params;
+  const body = new URLSearchParams({ client_id: clientId });
+
+  if (grant === 'refresh_token') {
+    if (!refreshToken) {
+      throw new TokenRefreshError(
+        'No refresh token available. Request the offline_access scope to use audience tokens.'
+      );
+    }
+    body.set('grant_type', 'refresh_token');
+    body.set('refresh_token', refreshToken);
+  } else {
+    body.set('grant_type', TOKEN_EXCHANGE_GRANT);
+    body.set('subject_token', accessToken);
+    body.set('subject_token_type', ACCESS_TOKEN_TYPE);
+    body.set('requested_token_type', ACCESS_TOKEN_TYPE);
+  }
+
+  if (options.scopes?.length) {
+    body.set('scope', options.scopes.join(' '));
+  }
+  if (options.audience) {
+    body.set('audience', options.audience);
+  }
+  if (options.resource) {
+    body.set('resource', options.resource);
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(tokenEndpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: body.toString(),
+    });
+  } catch (error) {
+    throw new TokenRefreshError(
+      'Token request failed',
+      error instanceof Error ? error : undefined
+    );
+  }
+
+  if (!response.ok) {
+    const details = await response.text().catch(() => '');
+    throw new TokenRefreshError(
+      `Token request failed with status ${response.status}${details ? `: ${details}` : ''}`
+    );
+  }
+
+  const json = (await response.json()) as TokenEndpointResponse;
+  if (!json.access_token) {
+    throw new TokenRefreshError('Token response did not include an access token');
+  }
+
+  return {
+    accessToken: json.access_token,
+    expiresAt: json.expires_in ? Math.floor(Date.now() / 1000) + json.expires_in : undefined,
+    scope: json.scope,
+    refreshToken: json.refresh_token,
+  };
+}
@@ -0,0 +1,35 @@
+import { hasInjectionContext, inject, type App } from 'vue';
+import { SCALEKIT_AUTH_KEY } from '../constants';
+import type { ScalekitAuthInstance } from '../plugin';
+
+/**
+ * Auth instances of the apps the plugin is installed into
+ */
+const installedAuth = new Set<ScalekitAuthInstance>();
+
+/**
+ * Records the auth instance installed into an app until the app is unmounted
+ */
+export function registerAuth(app: App, auth: ScalekitAuthInstance): void {
+  installedAuth.add(auth);
+  // app.onUnmount is only available from Vue 3.5
+  app.onUnmount?.(() => {
+    installedAuth.delete(auth);
+  });
+}
+
+/**
+ * Resolves the auth instance: injected when an injection context is available
+ * (component setup, navigation guards, `app.runWithContext`), otherwise the
+ * installed instance if there is exactly one. With several apps, call from
+ * within the app's context to get its own instance.
+ */
+export function resolveAuth(): ScalekitAuthInstance | null {
+  const injected = hasInjectionContext()
+    ? inject<ScalekitAuthInstance | null>(SCALEKIT_AUTH_KEY, null)
+    : null;
+  if (injected) {
+    return injected;
+  }
+  return installedAuth.size === 1 ? installedAuth.values().next().value! : null;
+}
@@ -1,5 +1,12 @@
+import type { ExtraSigninRequestArgs } from 'oidc-client-ts';
 import { OIDC_PARAMS, SCALEKIT_PARAMS } from '../constants';
-import type { LoginWithRedirectOptions } from '../types';
+import type {
+  AppState,
+  InvitationParams,
+  LoginWithRedirectOptions,
+  LogoutOptions,
+  LogoutResult,
+} from '../types';
 
 /**
  * Checks if the current URL contains OIDC callback parameters
@@ -17,6 +24,16 @@ export function hasAuthError(searchParams?: string): boolean {
   return params.has(OIDC_PARAMS.ERROR);
 }
 
+/**
+ * Gets the ID of the stored sign-in state a callback URL answers, without
+ * the `url_state` oidc-client-ts appends after a semicolon
+ */
+export function getCallbackStateId(searchParams?: string): string | null {
+  const params = new URLSearchParams(searchParams ?? window.location.search);
+  const state = params.get(OIDC_PARAMS.STATE);
+  return state ? state.split(';')[0] : null;
+}
+
 /**
  * Gets auth error details from URL parameters
  */
@@ -82,6 +99,10 @@ export function buildScalekitParams(options: LoginWithRedirectOptions): Record<s
     params[SCALEKIT_PARAMS.LOGIN_HINT] = options.loginHint;
   }
 
+  if (options.invitationCode) {
+    params[SCALEKIT_PARAMS.INVITATION_CODE] = options.invitationCode;
+  }
+
   // Merge with any additional extra params
   if (options.extraQueryParams) {
     Object.assign(params, options.extraQueryParams);
@@ -90,6 +111,191 @@ export function buildScalekitParams(options: LoginWithRedirectOptions): Record<s
   return params;
 }
 
+/**
+ * Builds the standard OIDC sign-in parameters (`prompt`, `max_age`, `acr_values`)
+ */
+export function buildSigninArgs(
+  options: LoginWithRedirectOptions
+): Pick<ExtraSigninRequestArgs, 'prompt' | 'max_age' | 'acr_values'> {
+  const { prompt, screenHint, maxAge, acrValues } = options;
+
+  return {
+    prompt: prompt ?? (screenHint === 'signup' ? 'create' : undefined),
+    max_age: maxAge,
+    acr_values: Array.isArray(acrValues) ? acrValues.join(' ') : acrValues,
+  };
+}
+
+/**
+ * Reads invitation parameters from the current URL (or the given query string).
+ * Returns null when the URL carries no invitation code.
+ */
+export function readInvitationParams(searchParams?: string): InvitationParams | null {
+  if (searchParams === undefined && typeof window === 'undefined') {
+    return null;
+  }
+
+  const params = new URLSearchParams(searchParams ?? window.location.search);
+  const invitationCode = params.get(SCALEKIT_PARAMS.INVITATION_CODE);
+  if (!invitationCode) {
+    return null;
+  }
+
+  return {
+    invitationCode,
+    organizationId: params.get(SCALEKIT_PARAMS.ORGANIZATION_ID) ?? undefined,
+    loginHint: params.get(SCALEKIT_PARAMS.LOGIN_HINT) ?? undefined,
+  };
+}
+
+/**
+ * Builds the state object persisted through the redirect flow
+ */
+export function buildRedirectState(options: LoginWithRedirectOptions): AppState | undefined {
+  if (!options.appState && !options.returnTo) {
+    return undefined;
+  }
+
+  const state: AppState = { ...options.appState };
+  if (options.returnTo) {
+    state.returnTo = options.returnTo;
+  }
+  return state;
+}
+
+/**
+ * Prefix of the keys the SDK adds to the locally stored sign-in state; they
+ * are removed from the app state handed back to the app
+ */
+const SDK_STATE_KEY_PREFIX = '__scalekit';
+
+/**
+ * Key of the ID token nonce in the locally stored sign-in state
+ */
+const NONCE_STATE_KEY = `${SDK_STATE_KEY_PREFIX}Nonce`;
+
+/**
+ * Key of a pending organization switch in the locally stored sign-in state
+ */
+const ORGANIZATION_SWITCH_STATE_KEY = `${SDK_STATE_KEY_PREFIX}OrganizationSwitch`;
+
+/**
+ * Organization switch completed by a redirect callback
+ */
+export interface PendingOrganizationSwitch {
+  organizationId: string;
+  previousOrganizationId?: string;
+}
+
+/**
+ * Adds the ID token nonce to sign-in arguments, sending it with the request
+ * and keeping it in the sign-in state so the response can be checked
+ * against it
+ */
+export function withSigninNonce<T extends object>(
+  args: T,
+  nonce: string
+): T & { nonce: string; state: Record<string, unknown> } {
+  const { state: current } = args as { state?: unknown };
+  const state = current && typeof current === 'object' ? current : {};
+  return { ...args, nonce, state: { ...state, [NONCE_STATE_KEY]: nonce } };
+}
+
+/**
+ * Reads the ID token nonce from the stored sign-in state of a user
+ */
+export function readSigninNonce(oidcUser: { state?: unknown }): string | undefined {
+  if (!oidcUser.state || typeof oidcUser.state !== 'object') {
+    return undefined;
+  }
+  const nonce = (oidcUser.state as Record<string, unknown>)[NONCE_STATE_KEY];
+  return typeof nonce === 'string' ? nonce : undefined;
+}
+
+/**
+ * Builds the state persisted through a redirect-mode organization switch
+ */
+export function buildOrganizationSwitchState(
+  returnTo: string | undefined,
+  organizationSwitch: PendingOrganizationSwitch
+): AppState {
+  return {
+    ...buildRedirectState({ returnTo }),
+    [ORGANIZATION_SWITCH_STATE_KEY]: organizationSwitch,
+  };
+}
+
+/**
+ * Reads the organization switch a redirect callback completes, if any
+ */
+export function readOrganizationSwitch(oidcUser: {
+  state?: unknown;
+}): PendingOrganizationSwitch | undefined {
+  if (!oidcUser.state || typeof oidcUser.state !== 'object') {
+    return undefined;
+  }
+  const pending = (oidcUser.state as Record<string, unknown>)[ORGANIZATION_SWITCH_STATE_KEY];
+  return pending && typeof pending === 'object' && 'organizationId' in pending
+    ? (pending as PendingOrganizationSwitch)
+    : undefined;
+}
+
+/**
+ * Restores the app state from a signed-in oidc-client-ts user.
+ * Prefers the locally stored `state`, falling back to a JSON `url_state`.
+ */
+export function extractAppState(oidcUser: {
+  state?: unknown;
+  url_state?: string;
+}): AppState | undefined {
+  if (oidcUser.state && typeof oidcUser.state === 'object') {
+    const appState = Object.fromEntries(
+      Object.entries(oidcUser.state).filter(([key]) => !key.startsWith(SDK_STATE_KEY_PREFIX))
+    );
+    if (Object.keys(appState).length > 0) {
+      return appState as AppState;
+    }
+  }
+
+  if (oidcUser.url_state) {
+    try {
+      const parsed: unknown = JSON.parse(oidcUser.url_state);
+      if (parsed && typeof parsed === 'object') {
+        return parsed as AppState;
+      }
+    } catch {
+      // url_state was not set by this SDK
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Builds the state object persisted through the logout flow
+ */
+export function buildLogoutState(options: LogoutOptions): LogoutResult | undefined {
+  if (!options.returnTo && options.state === undefined) {
+    return undefined;
+  }
+
+  return {
+    returnTo: options.returnTo,
+    state: options.state,
+  };
+}
+
+/**
+ * Builds extra query parameters for the end-session request
+ */
+export function buildLogoutParams(options: LogoutOptions): Record<string, string> | undefined {
+  if (!options.federated) {
+    return undefined;
+  }
+
+  return { [SCALEKIT_PARAMS.FEDERATED_LOGOUT]: 'true' };
+}
+
 /**
  * Gets the current URL for use as return URL
  */
@@ -101,11 +307,47 @@ export function getCurrentUrl(): string {
 }
 
 /**
- * Normalizes a URL path to ensure it starts with /
+ * Gets the current app path, including query and hash
+ */
+export function getCurrentPath(): string | undefined {
+  if (typeof window === 'undefined') {
+    return undefined;
+  }
+  return `${window.location.pathname}${window.location.search}${window.location.hash}`;
+}
+
+/**
+ * Normalizes a return path to a same-origin path starting with /.
+ * Absolute URLs are reduced to their path when they share the current origin;
+ * anything pointing elsewhere resolves to the fallback.
  */
-export function normalizeReturnPath(path: string): string {
+export function normalizeReturnPath(path: string, fallback = '/'): string {
   if (!path) {
-    return '/';
+    return fallback;
   }
-  return path.startsWith('/') ? path : `/${path}`;
+
+  if (/^[a-z][a-z\d+.-]*:/i.test(path)) {
+    if (typeof window === 'undefined') {
+      return fallback;
+    }
+
+    try {
+      const url = new URL(path);
+      if (url.origin !== window.location.origin) {
+        return fallback;
+      }
+      return `${url.pathname}${url.search}${url.hash}`;
+    } catch {
+      return fallback;
+    }
+  }
+
+  const normalized = path.startsWith('/') ? path : `/${path}`;
+
+  // Protocol-relative URLs (//host, /\host) would leave the current origin
+  if (/^[/\\]{2}/.test(normalized)) {
+    return fallback;
+  }
+
+  return normalized;
 }
@@ -0,0 +1,71 @@
+import type { ScalekitUser } from '../types';
+
+/**
+ * Normalizes a single value or list to a list
+ */
+function toList(value: string | string[]): string[] {
+  return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * Checks if the user has the given role
+ */
+export function userHasRole(user: ScalekitUser | null, role: string): boolean {
+  return user?.metadata.roles?.includes(role) ?? false;
+}
+
+/**
+ * Checks if the user has at least one of the given roles
+ */
+export function userHasAnyRole(user: ScalekitUser | null, roles: string[]): boolean {
+  return roles.some((role) => userHasRole(user, role));
+}
+
+/**
+ * Checks if the user has the given permission, or all of the given permissions
+ */
+export function userHasPermission(
+  user: ScalekitUser | null,
+  permission: string | string[]
+): boolean {
+  const granted = user?.metadata.permissions ?? [];
+  return toList(permission).every((item) => granted.includes(item));
+}
+
+/**
+ * Checks if the user belongs to the given group
+ */
+export function userHasGroup(user: ScalekitUser | null, group: string): boolean {
+  return user?.metadata.groups?.includes(group) ?? false;
+}
+
+/**
+ * Requirements a user must meet to be authorized
+ */
+export interface AuthorizationRequirements {
+  /** The user must have at least one of these roles */
+  roles?: string[];
+
+  /** The user must have all of these permissions */
+  permissions?: string[];
+}
+
+/**
+ * Checks if the user meets the given requirements
+ */
+export function isUserAuthorized(
+  user: ScalekitUser | null,
+  requirements: AuthorizationRequirements
+): boolean {
+  const { roles, permissions } = requirements;
+
+  if (roles?.length && !userHasAnyRole(user, roles)) {
+    return false;
+  }
+
+  if (permissions?.length && !userHasPermission(user, permissions)) {
+    return false;
+  }
+
+  return true;
+}
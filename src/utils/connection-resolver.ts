@@ -0,0 +1,87 @@
+import type { ConnectionResolver, ConnectionRoute } from '../types';
+import { LoginError } from '../types/errors';
+
+/**
+ * Options for the endpoint-backed connection resolver
+ */
+export interface ConnectionEndpointOptions {
+  /** Underlying fetch implementation. Defaults to the global fetch */
+  fetch?: typeof fetch;
+}
+
+/**
+ * Response of a domain discovery endpoint
+ */
+interface ConnectionEndpointResponse {
+  organization_id?: string;
+  organizationId?: string;
+  connection_id?: string;
+  connectionId?: string;
+}
+
+/**
+ * Extracts the lowercased domain of an email address
+ */
+export function getEmailDomain(email: string): string | null {
+  const match = /^[^\s@]+@([^\s@]+\.[^\s@]+)$/.exec(email.trim());
+  return match ? match[1].toLowerCase() : null;
+}
+
+/**
+ * Resolves the connection route for a domain with a map or function resolver
+ */
+export async function resolveConnectionRoute(
+  resolver: ConnectionResolver,
+  domain: string,
+  email: string
+): Promise<ConnectionRoute | null> {
+  if (typeof resolver === 'function') {
+    return (await resolver(domain, email)) ?? null;
+  }
+
+  const key = Object.keys(resolver).find((candidate) => candidate.toLowerCase() === domain);
+  return key ? resolver[key] : null;
+}
+
+/**
+ * Creates a resolver that looks domains up at an HTTP endpoint.
+ *
+ * The endpoint receives `GET <endpoint>?domain=<domain>` and answers with
+ * `{ organization_id?, connection_id? }` (camelCase keys are accepted too),
+ * or 404 when the domain has no SSO connection. This can be a backend route
+ * proxying Scalekit's domain lookup, or a local mock during development.
+ *
+ * @example
+ * ```ts
+ * app.use(ScalekitAuthPlugin, {
+ *   ...options,
+ *   resolveConnection: createConnectionEndpointResolver('/api/sso/discover'),
+ * });
+ * ```
+ */
+export function createConnectionEndpointResolver(
+  endpoint: string,
+  options: ConnectionEndpointOptions = {}
+): ConnectionResolver {
+  const baseFetch: typeof fetch = options.fetch ?? ((input, init) => fetch(input, init));
+
+  return async (domain) => {
+    const base = typeof window !== 'undefined' ? window.location.href : undefined;
+    const url = new URL(endpoint, base);
+    url.searchParams.set('domain', domain);
+
+    const response = await baseFetch(url.toString(), { headers: { Accept: 'application/json' } });
+    if (response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      throw new LoginError(`Connection lookup failed with status ${response.status}`);
+    }
+
+    const json = (await response.json()) as ConnectionEndpointResponse;
+    return {
+      organizationId: json.organization_id ?? json.organizationId,
+      connectionId: json.connection_id ?? json.connectionId,
+    };
+  };
+}
@@ -0,0 +1,174 @@
+import type { DiscoveryMode, OidcProviderMetadata, ScalekitAuthConfig } from '../types';
+import { DEFAULT_DISCOVERY_CACHE_TTL_MS, STORAGE_KEY_PREFIX } from '../constants';
+import { buildScalekitEndpoints } from './user-manager-factory';
+import { getStorage, isStorageAvailable } from './storage';
+
+/**
+ * Metadata fields read from the discovery document
+ */
+const METADATA_FIELDS: (keyof OidcProviderMetadata)[] = [
+  'issuer',
+  'authorization_endpoint',
+  'token_endpoint',
+  'userinfo_endpoint',
+  'end_session_endpoint',
+  'jwks_uri',
+  'revocation_endpoint',
+  'introspection_endpoint',
+];
+
+/**
+ * Options for discoverProviderMetadata
+ */
+export interface DiscoverProviderMetadataOptions {
+  /** Storage for the cached discovery document; it holds no secrets */
+  storage: Storage;
+
+  /** Fetch implementation. Defaults to the global fetch */
+  fetch?: typeof fetch;
+}
+
+/**
+ * Discovered metadata as kept in storage
+ */
+interface CachedMetadata {
+  metadata: OidcProviderMetadata;
+  expiresAt: number;
+}
+
+/**
+ * Storage key of the cached discovery document for an issuer
+ */
+function getDiscoveryKey(issuer: string): string {
+  return `${STORAGE_KEY_PREFIX}.discovery.${issuer}`;
+}
+
+/**
+ * Gets the configured discovery mode
+ */
+export function getDiscoveryMode(config: ScalekitAuthConfig): DiscoveryMode {
+  const discovery = config.discovery;
+  if (!discovery) {
+    return 'static';
+  }
+  return typeof discovery === 'string' ? discovery : (discovery.mode ?? 'static');
+}
+
+/**
+ * Gets the configured `metadata` overrides, ignoring empty values
+ */
+function getMetadataOverrides(config: ScalekitAuthConfig): Partial<OidcProviderMetadata> {
+  const discovery = config.discovery;
+  if (!discovery || typeof discovery === 'string' || !discovery.metadata) {
+    return {};
+  }
+
+  return Object.fromEntries(
+    Object.entries(discovery.metadata).filter(([, value]) => typeof value === 'string' && value)
+  );
+}
+
+/**
+ * Resolves OIDC metadata without network access: the standard Scalekit
+ * endpoints, with any `metadata` overrides applied
+ */
+export function getStaticProviderMetadata(config: ScalekitAuthConfig): OidcProviderMetadata {
+  return { ...buildScalekitEndpoints(config.environmentUrl), ...getMetadataOverrides(config) };
+}
+
+/**
+ * Storage for the discovery cache. The document is public, so it is kept in
+ * localStorage where available, wherever the session itself is stored.
+ */
+export function getDiscoveryCacheStorage(): Storage {
+  return getStorage(isStorageAvailable('localStorage') ? 'localStorage' : 'memory');
+}
+
+/**
+ * Reads cached metadata that has not expired
+ */
+function readCachedMetadata(storage: Storage, issuer: string): OidcProviderMetadata | null {
+  try {
+    const raw = storage.getItem(getDiscoveryKey(issuer));
+    if (!raw) {
+      return null;
+    }
+
+    const cached = JSON.parse(raw) as CachedMetadata;
+    if (cached.expiresAt > Date.now() && cached.metadata?.issuer === issuer) {
+      return cached.metadata;
+    }
+  } catch {
+    // Ignore malformed entries
+  }
+
+  storage.removeItem(getDiscoveryKey(issuer));
+  return null;
+}
+
+/**
+ * Resolves OIDC metadata for the configured `discovery` mode.
+ *
+ * In `auto` mode the discovery document is fetched from
+ * `/.well-known/openid-configuration` and cached in storage for
+ * `discoveryCacheTtl`. Endpoints missing from the document are taken from
+ * the static Scalekit endpoints, and `metadata` overrides are applied on top.
+ * When the request fails, e.g. because the endpoint does not allow CORS, the
+ * static endpoints are used and nothing is cached, so the next page load
+ * tries again.
+ */
+export async function discoverProviderMetadata(
+  config: ScalekitAuthConfig,
+  options: DiscoverProviderMetadataOptions
+): Promise<OidcProviderMetadata> {
+  const fallback = getStaticProviderMetadata(config);
+  if (getDiscoveryMode(config) !== 'auto') {
+    return fallback;
+  }
+
+  // The cache holds the discovered document; overrides are applied on read
+  const overrides = getMetadataOverrides(config);
+  const { storage } = options;
+  const issuer = fallback.issuer;
+  const cached = readCachedMetadata(storage, issuer);
+  if (cached) {
+    return { ...cached, ...overrides };
+  }
+
+  const fetchMetadata: typeof fetch = options.fetch ?? ((input, init) => fetch(input, init));
+
+  try {
+    const response = await fetchMetadata(`${issuer}/.well-known/openid-configuration`, {
+      headers: { Accept: 'application/json' },
+    });
+    if (!response.ok) {
+      throw new Error(`Discovery request failed with status ${response.status}`);
+    }
+
+    const document = (await response.json()) as Record<string, unknown>;
+    if (document.issuer !== issuer) {
+      throw new Error(`Discovered issuer ${String(document.issuer)} is not ${issuer}`);
+    }
+
+    const metadata = { ...buildScalekitEndpoints(config.environmentUrl), issuer };
+    for (const field of METADATA_FIELDS) {
+      const value = document[field];
+      if (typeof value === 'string' && value) {
+        metadata[field] = value;
+      }
+    }
+
+    const ttl = config.discoveryCacheTtl ?? DEFAULT_DISCOVERY_CACHE_TTL_MS;
+    const entry: CachedMetadata = { metadata, expiresAt: Date.now() + ttl };
+    try {
+      storage.setItem(getDiscoveryKey(issuer), JSON.stringify(entry));
+    } catch {
+      // Storage full or unavailable; use the metadata uncached
+    }
+
+    return { ...metadata, ...overrides };
+  } catch (error) {
+    console.warn('OIDC discovery failed, falling back to static endpoints', error);
+    return fallback;
+  }
+}
@@ -0,0 +1,208 @@
+import { STORAGE_KEY_PREFIX } from '../constants';
+import type { StorageAdapter } from '../types';
+import { base64UrlEncode, base64UrlToBytes } from './jwt';
+import { openDatabase, promisifyRequest } from './indexed-db';
+
+/**
+ * Marks values written by the encrypted storage; the version allows changing
+ * the format later
+ */
+const ENCRYPTED_VALUE_PREFIX = 'enc.v1.';
+
+/**
+ * IndexedDB object store and record holding the encryption key
+ */
+const KEY_STORE_NAME = 'keys';
+const KEY_RECORD_NAME = 'storage';
+
+/**
+ * Length of the AES-GCM initialization vector in bytes
+ */
+const IV_LENGTH = 12;
+
+/**
+ * Options for createEncryptedStorage
+ */
+export interface EncryptedStorageOptions {
+  /** IndexedDB database holding the encryption key. Defaults to "scalekit_auth" */
+  databaseName?: string;
+}
+
+/**
+ * A StorageAdapter that encrypts values before they reach its backend
+ */
+export interface EncryptedStorageAdapter extends StorageAdapter {
+  /**
+   * Encrypts entries that are still stored in plaintext and whose key passes
+   * the filter. Resolves with the number of migrated entries; nothing is
+   * migrated when the key could not be persisted.
+   */
+  migrate: (filter: (key: string) => boolean) => Promise<number>;
+}
+
+/**
+ * Encryption key, and whether it is kept beyond the current page
+ */
+interface EncryptionKey {
+  key: CryptoKey;
+  persisted: boolean;
+}
+
+/**
+ * Encryption keys per IndexedDB database, shared by all adapters of the page
+ */
+const encryptionKeys = new Map<string, Promise<EncryptionKey>>();
+
+/**
+ * Generates a non-extractable AES-GCM key
+ */
+function generateKey(): Promise<CryptoKey> {
+  return crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, [
+    'encrypt',
+    'decrypt',
+  ]);
+}
+
+/**
+ * Loads the encryption key from IndexedDB, storing a new one on first use.
+ *
+ * The key is generated before the transaction is opened, since a transaction
+ * commits as soon as it waits on anything other than IndexedDB. Read and
+ * write happen in one readwrite transaction, so tabs starting at the same
+ * time agree on a single key.
+ */
+async function loadPersistedKey(databaseName: string): Promise<CryptoKey> {
+  const candidate = await generateKey();
+  const database = await openDatabase(databaseName, KEY_STORE_NAME);
+
+  try {
+    const store = database
+      .transaction(KEY_STORE_NAME, 'readwrite')
+      .objectStore(KEY_STORE_NAME);
+    const existing = await promisifyRequest<CryptoKey | undefined>(store.get(KEY_RECORD_NAME));
+    if (existing) {
+      return existing;
+    }
+    await promisifyRequest(store.put(candidate, KEY_RECORD_NAME));
+    return candidate;
+  } finally {
+    database.close();
+  }
+}
+
+/**
+ * Gets the encryption key for a database. When IndexedDB cannot be opened,
+ * e.g. in some private browsing modes, the key only lives for the page, so
+ * entries written by earlier page loads cannot be read.
+ */
+function getEncryptionKey(databaseName: string): Promise<EncryptionKey> {
+  let key = encryptionKeys.get(databaseName);
+  if (!key) {
+    key = loadPersistedKey(databaseName).then(
+      (persistedKey) => ({ key: persistedKey, persisted: true }),
+      async (error) => {
+        console.warn('Encryption key could not be persisted, using a per-page key', error);
+        return { key: await generateKey(), persisted: false };
+      }
+    );
+    encryptionKeys.set(databaseName, key);
+  }
+  return key;
+}
+
+/**
+ * Creates a StorageAdapter that encrypts values with AES-GCM before writing
+ * them to the backend.
+ *
+ * The key is non-extractable and kept in IndexedDB, so the stored values
+ * cannot be read by copying storage out of the browser. Each value is bound
+ * to its storage key. Values that cannot be decrypted, e.g. after the key
+ * was cleared, are removed and read as missing. Plaintext values written
+ * before encryption was enabled are returned as-is and encrypted in place,
+ * unless the key could not be persisted: they would be unreadable after a
+ * reload, so they are left as they are.
+ */
+export function createEncryptedStorage(
+  backend: StorageAdapter,
+  options: EncryptedStorageOptions = {}
+): EncryptedStorageAdapter {
+  const databaseName = options.databaseName ?? STORAGE_KEY_PREFIX;
+  const encoder = new TextEncoder();
+
+  async function encrypt(key: string, value: string): Promise<string> {
+    const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+    const ciphertext = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv, additionalData: encoder.encode(key) },
+      (await getEncryptionKey(databaseName)).key,
+      encoder.encode(value)
+    );
+    const encoded = base64UrlEncode(new Uint8Array(ciphertext));
+    return `${ENCRYPTED_VALUE_PREFIX}${base64UrlEncode(iv)}.${encoded}`;
+  }
+
+  async function decrypt(key: string, value: string): Promise<string> {
+    const [iv, ciphertext] = value.slice(ENCRYPTED_VALUE_PREFIX.length).split('.');
+    const plaintext = await crypto.subtle.decrypt(
+      {
+        name: 'AES-GCM',
+        iv: base64UrlToBytes(iv) as BufferSource,
+        additionalData: encoder.encode(key),
+      },
+      (await getEncryptionKey(databaseName)).key,
+      base64UrlToBytes(ciphertext ?? '') as BufferSource
+    );
+    return new TextDecoder().decode(plaintext);
+  }
+
+  async function set(key: string, value: string): Promise<void> {
+    await backend.set(key, await encrypt(key, value));
+  }
+
+  async function get(key: string): Promise<string | null> {
+    const value = await backend.get(key);
+    if (value === null) {
+      return null;
+    }
+
+    if (!value.startsWith(ENCRYPTED_VALUE_PREFIX)) {
+      if ((await getEncryptionKey(databaseName)).persisted) {
+        await set(key, value);
+      }
+      return value;
+    }
+
+    try {
+      return await decrypt(key, value);
+    } catch {
+      await backend.remove(key);
+      return null;
+    }
+  }
+
+  async function migrate(filter: (key: string) => boolean): Promise<number> {
+    if (!(await getEncryptionKey(databaseName)).persisted) {
+      return 0;
+    }
+
+    let migrated = 0;
+    for (const key of await backend.keys()) {
+      if (!filter(key)) {
+        continue;
+      }
+      const value = await backend.get(key);
+      if (value !== null && !value.startsWith(ENCRYPTED_VALUE_PREFIX)) {
+        await set(key, value);
+        migrated += 1;
+      }
+    }
+    return migrated;
+  }
+
+  return {
+    get,
+    set,
+    remove: (key) => backend.remove(key),
+    keys: () => backend.keys(),
+    migrate,
+  };
+}
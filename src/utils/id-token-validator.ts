@@ -0,0 +1,300 @@
+import { DEFAULT_ID_TOKEN_VALIDATION } from '../constants';
+import { TokenValidationError } from '../types/errors';
+import { base64UrlDecode, base64UrlEncode, base64UrlToBytes } from './jwt';
+
+/**
+ * WebCrypto parameters for the supported JWS algorithms
+ */
+const JWS_ALGORITHMS: Record<string, RsaHashedImportParams | EcKeyImportParams> = {
+  RS256: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+  RS384: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-384' },
+  RS512: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-512' },
+  PS256: { name: 'RSA-PSS', hash: 'SHA-256' },
+  PS384: { name: 'RSA-PSS', hash: 'SHA-384' },
+  PS512: { name: 'RSA-PSS', hash: 'SHA-512' },
+  ES256: { name: 'ECDSA', namedCurve: 'P-256' },
+  ES384: { name: 'ECDSA', namedCurve: 'P-384' },
+  ES512: { name: 'ECDSA', namedCurve: 'P-521' },
+};
+
+/**
+ * Verification parameters matching JWS_ALGORITHMS
+ */
+const VERIFY_PARAMS: Record<string, AlgorithmIdentifier | RsaPssParams | EcdsaParams> = {
+  RS256: 'RSASSA-PKCS1-v1_5',
+  RS384: 'RSASSA-PKCS1-v1_5',
+  RS512: 'RSASSA-PKCS1-v1_5',
+  PS256: { name: 'RSA-PSS', saltLength: 32 },
+  PS384: { name: 'RSA-PSS', saltLength: 48 },
+  PS512: { name: 'RSA-PSS', saltLength: 64 },
+  ES256: { name: 'ECDSA', hash: 'SHA-256' },
+  ES384: { name: 'ECDSA', hash: 'SHA-384' },
+  ES512: { name: 'ECDSA', hash: 'SHA-512' },
+};
+
+/**
+ * Options for createIdTokenValidator
+ */
+export interface IdTokenValidatorOptions {
+  /** Expected `iss` claim */
+  issuer: string;
+
+  /** Client ID expected in `aud` (and `azp`) */
+  clientId: string;
+
+  /** JWKS endpoint with the signing keys */
+  jwksUri: string;
+
+  /** Tolerated clock difference in seconds */
+  clockSkew?: number;
+
+  /** Fetch implementation. Defaults to the global fetch */
+  fetch?: typeof fetch;
+}
+
+/**
+ * Options for validating a single ID token
+ */
+export interface ValidateIdTokenOptions {
+  /**
+   * Whether the token must carry the nonce of its sign-in request. True for
+   * fresh sign-ins; refreshed tokens carry no new nonce.
+   */
+  checkNonce: boolean;
+
+  /** Nonce sent with the sign-in request, kept in its sign-in state */
+  nonce?: string;
+}
+
+/**
+ * Validates ID tokens against the signing keys of the issuer
+ */
+export interface IdTokenValidator {
+  /** Creates a random nonce for a sign-in request */
+  createNonce: () => string;
+
+  /** Validates the token and resolves with its claims */
+  validate: (
+    idToken: string | undefined,
+    options: ValidateIdTokenOptions
+  ) => Promise<Record<string, unknown>>;
+}
+
+/**
+ * A key from the JWKS endpoint
+ */
+type SigningKey = JsonWebKey & { kid?: string };
+
+/**
+ * Parsed parts of a compact JWS
+ */
+interface ParsedJwt {
+  header: { alg?: string; kid?: string };
+  claims: Record<string, unknown>;
+  signingInput: BufferSource;
+  signature: BufferSource;
+}
+
+/**
+ * Splits and decodes a JWT
+ */
+function parseJwt(token: string): ParsedJwt {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    throw new TokenValidationError('ID token is not a JWT', 'malformed');
+  }
+
+  try {
+    const header: unknown = JSON.parse(base64UrlDecode(parts[0]));
+    const claims: unknown = JSON.parse(base64UrlDecode(parts[1]));
+    if (!header || typeof header !== 'object' || !claims || typeof claims !== 'object') {
+      throw new Error('JWT header and payload must be objects');
+    }
+
+    return {
+      header: header as ParsedJwt['header'],
+      claims: claims as Record<string, unknown>,
+      signingInput: new TextEncoder().encode(`${parts[0]}.${parts[1]}`),
+      signature: base64UrlToBytes(parts[2]) as BufferSource,
+    };
+  } catch (error) {
+    throw new TokenValidationError(
+      'ID token could not be decoded',
+      'malformed',
+      error instanceof Error ? error : undefined
+    );
+  }
+}
+
+/**
+ * Whether a JWK can verify signatures of the given algorithm
+ */
+function isCandidateKey(key: SigningKey, alg: string, kid?: string): boolean {
+  if (kid !== undefined && key.kid !== kid) {
+    return false;
+  }
+  if (key.use !== undefined && key.use !== 'sig') {
+    return false;
+  }
+  if (key.alg !== undefined && key.alg !== alg) {
+    return false;
+  }
+  return key.kty === (alg.startsWith('ES') ? 'EC' : 'RSA');
+}
+
+/**
+ * Checks the registered claims of an ID token
+ */
+function validateClaims(
+  claims: Record<string, unknown>,
+  options: { issuer: string; clientId: string; clockSkew: number }
+): void {
+  const { issuer, clientId, clockSkew } = options;
+  const now = Math.floor(Date.now() / 1000);
+
+  if (claims.iss !== issuer) {
+    throw new TokenValidationError(
+      `ID token issuer ${String(claims.iss)} is not ${issuer}`,
+      'issuer'
+    );
+  }
+
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  if (!audiences.includes(clientId)) {
+    throw new TokenValidationError('ID token was not issued for this client', 'audience');
+  }
+
+  // azp is required when there are several audiences, and must name this client
+  if ((audiences.length > 1 || claims.azp !== undefined) && claims.azp !== clientId) {
+    throw new TokenValidationError(
+      'ID token authorized party is not this client',
+      'authorized_party'
+    );
+  }
+
+  if (typeof claims.exp !== 'number' || claims.exp + clockSkew <= now) {
+    throw new TokenValidationError('ID token has expired', 'expired');
+  }
+
+  if (typeof claims.iat !== 'number' || claims.iat - clockSkew > now) {
+    throw new TokenValidationError('ID token was issued in the future', 'issued_at');
+  }
+}
+
+/**
+ * Creates an ID token validator.
+ *
+ * Signing keys are fetched from the JWKS endpoint on first use and cached;
+ * the keys are fetched again once when a token names an unknown `kid`, to
+ * pick up key rotation. The nonce of a sign-in is kept in its oidc-client-ts
+ * sign-in state, which is removed once the response is processed, so each
+ * nonce is accepted for its own request only and only once.
+ */
+export function createIdTokenValidator(options: IdTokenValidatorOptions): IdTokenValidator {
+  const {
+    issuer,
+    clientId,
+    jwksUri,
+    clockSkew = DEFAULT_ID_TOKEN_VALIDATION.CLOCK_SKEW_SECONDS,
+  } = options;
+  const fetchKeys: typeof fetch = options.fetch ?? ((input, init) => fetch(input, init));
+
+  let jwks: Promise<SigningKey[]> | null = null;
+  const importedKeys = new Map<JsonWebKey, Promise<CryptoKey>>();
+
+  function loadKeys(): Promise<SigningKey[]> {
+    if (!jwks) {
+      jwks = fetchKeys(jwksUri, { headers: { Accept: 'application/json' } })
+        .then(async (response) => {
+          if (!response.ok) {
+            throw new Error(`JWKS request failed with status ${response.status}`);
+          }
+          const body = (await response.json()) as { keys?: unknown };
+          return Array.isArray(body.keys) ? (body.keys as SigningKey[]) : [];
+        })
+        .catch((error) => {
+          jwks = null;
+          throw new TokenValidationError(
+            'Failed to fetch the ID token signing keys',
+            'keys',
+            error instanceof Error ? error : undefined
+          );
+        });
+    }
+    return jwks;
+  }
+
+  function importKey(jwk: JsonWebKey, alg: string): Promise<CryptoKey> {
+    let key = importedKeys.get(jwk);
+    if (!key) {
+      key = crypto.subtle.importKey('jwk', jwk, JWS_ALGORITHMS[alg], false, ['verify']);
+      importedKeys.set(jwk, key);
+    }
+    return key;
+  }
+
+  async function findKeys(alg: string, kid?: string) {
+    const keys = await loadKeys();
+    const candidates = keys.filter((key) => isCandidateKey(key, alg, kid));
+    if (candidates.length > 0 || kid === undefined) {
+      return candidates;
+    }
+
+    // The issuer may have rotated its keys since they were cached
+    jwks = null;
+    return (await loadKeys()).filter((key) => isCandidateKey(key, alg, kid));
+  }
+
+  async function verifySignature(jwt: ParsedJwt): Promise<void> {
+    const { alg, kid } = jwt.header;
+    if (!alg || !JWS_ALGORITHMS[alg]) {
+      throw new TokenValidationError(`Unsupported ID token algorithm: ${String(alg)}`, 'signature');
+    }
+
+    const candidates = await findKeys(alg, kid);
+    if (candidates.length === 0) {
+      throw new TokenValidationError('No signing key matches the ID token', 'keys');
+    }
+
+    for (const jwk of candidates) {
+      try {
+        const key = await importKey(jwk, alg);
+        if (await crypto.subtle.verify(VERIFY_PARAMS[alg], key, jwt.signature, jwt.signingInput)) {
+          return;
+        }
+      } catch {
+        // Unusable key; try the next candidate
+      }
+    }
+
+    throw new TokenValidationError('ID token signature is invalid', 'signature');
+  }
+
+  function createNonce(): string {
+    const bytes = new Uint8Array(32);
+    crypto.getRandomValues(bytes);
+    return base64UrlEncode(bytes);
+  }
+
+  async function validate(
+    idToken: string | undefined,
+    validateOptions: ValidateIdTokenOptions
+  ): Promise<Record<string, unknown>> {
+    if (!idToken) {
+      throw new TokenValidationError('No ID token was returned', 'malformed');
+    }
+
+    const jwt = parseJwt(idToken);
+    await verifySignature(jwt);
+    validateClaims(jwt.claims, { issuer, clientId, clockSkew });
+
+    const { checkNonce, nonce } = validateOptions;
+    if (checkNonce && (!nonce || jwt.claims.nonce !== nonce)) {
+      throw new TokenValidationError('ID token nonce does not match the sign-in request', 'nonce');
+    }
+
+    return jwt.claims;
+  }
+
+  return { createNonce, validate };
+}
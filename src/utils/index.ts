@@ -1,15 +1,87 @@
-export { createUserManager, getStoredUser } from './user-manager-factory';
+export {
+  createUserManager,
+  getStoredUser,
+  buildScalekitEndpoints,
+  validateConfig,
+} from './user-manager-factory';
+export {
+  discoverProviderMetadata,
+  getDiscoveryCacheStorage,
+  getDiscoveryMode,
+  getStaticProviderMetadata,
+} from './discovery';
+export type { DiscoverProviderMetadataOptions } from './discovery';
 export {
   hasAuthParams,
   hasAuthError,
   getAuthError,
   cleanupAuthParams,
   buildScalekitParams,
+  buildSigninArgs,
+  readInvitationParams,
+  buildRedirectState,
+  buildOrganizationSwitchState,
+  readOrganizationSwitch,
+  getCallbackStateId,
+  extractAppState,
+  withSigninNonce,
+  readSigninNonce,
+  buildLogoutState,
+  buildLogoutParams,
   getCurrentUrl,
+  getCurrentPath,
   normalizeReturnPath,
 } from './auth-params';
+export type { PendingOrganizationSwitch } from './auth-params';
+export {
+  isAudienceTokenRequest,
+  getAudienceTokenKey,
+  isTokenExpiring,
+  readCachedToken,
+  writeCachedToken,
+  clearCachedTokens,
+  requestAudienceToken,
+} from './audience-token';
+export type { CachedAccessToken } from './audience-token';
+export {
+  userHasRole,
+  userHasAnyRole,
+  userHasPermission,
+  userHasGroup,
+  isUserAuthorized,
+} from './authorization';
+export type { AuthorizationRequirements } from './authorization';
+export { isStepUpSatisfied } from './step-up';
+export {
+  getEmailDomain,
+  resolveConnectionRoute,
+  createConnectionEndpointResolver,
+} from './connection-resolver';
+export type { ConnectionEndpointOptions } from './connection-resolver';
+export { decodeJwtPayload, base64UrlDecode, base64UrlEncode, base64UrlToBytes } from './jwt';
+export { createIdTokenValidator } from './id-token-validator';
+export type {
+  IdTokenValidator,
+  IdTokenValidatorOptions,
+  ValidateIdTokenOptions,
+} from './id-token-validator';
+export { createSessionSync } from './session-sync';
+export type { SessionSync, SessionSyncMessage, SessionSyncOptions } from './session-sync';
 export {
   getStorage,
   createStateStore,
+  createUserStore,
+  createWebStorageAdapter,
+  encryptPlaintextEntries,
+  isStorageAdapter,
   isStorageAvailable,
 } from './storage';
+export type { StoreOptions } from './storage';
+export { createEncryptedStorage } from './encrypted-storage';
+export type { EncryptedStorageAdapter, EncryptedStorageOptions } from './encrypted-storage';
+export { createIndexedDbStorage, createCookieStorage, isCookieStorage } from './storage-adapters';
+export type { IndexedDbStorageOptions, CookieStorageOptions } from './storage-adapters';
+export { openDatabase, promisifyRequest } from './indexed-db';
+export { registerAuth, resolveAuth } from './auth-instance';
+export { openPopupWindow, isPopupWindow } from './popup';
+export { isFatalRefreshError, getRetryDelay, retryWithBackoff } from './refresh-retry';
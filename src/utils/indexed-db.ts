@@ -0,0 +1,24 @@
+/**
+ * Wraps an IndexedDB request in a promise
+ */
+export function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Opens a database with a single object store, creating it on first use
+ */
+export function openDatabase(databaseName: string, storeName: string): Promise<IDBDatabase> {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('IndexedDB is not available'));
+  }
+
+  const open = indexedDB.open(databaseName, 1);
+  open.onupgradeneeded = () => {
+    open.result.createObjectStore(storeName);
+  };
+  return promisifyRequest(open);
+}
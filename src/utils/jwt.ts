@@ -0,0 +1,43 @@
+/**
+ * Decodes a base64url string to bytes
+ */
+export function base64UrlToBytes(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '=');
+  const binary = atob(padded);
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+/**
+ * Decodes a base64url string to a UTF-8 string
+ */
+export function base64UrlDecode(value: string): string {
+  return new TextDecoder().decode(base64UrlToBytes(value));
+}
+
+/**
+ * Encodes a UTF-8 string or raw bytes as base64url without padding
+ */
+export function base64UrlEncode(value: string | Uint8Array): string {
+  const bytes = typeof value === 'string' ? new TextEncoder().encode(value) : value;
+  const binary = Array.from(bytes, (byte) => String.fromCharCode(byte)).join('');
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Decodes the payload of a JWT without verifying it.
+ * Returns null if the value is not a well-formed JWT.
+ */
+export function decodeJwtPayload(token: string): Record<string, unknown> | null {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    return null;
+  }
+
+  try {
+    const payload: unknown = JSON.parse(base64UrlDecode(parts[1]));
+    return payload && typeof payload === 'object' ? (payload as Record<string, unknown>) : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,32 @@
+import { POPUP_WINDOW_TARGET } from '../constants';
+
+/**
+ * Opens an empty login popup centered over the current window.
+ *
+ * Opening it up front, synchronously with the user's click, lets blocked
+ * popups be detected immediately and gives a handle to close the popup on
+ * cancellation or timeout. oidc-client-ts then navigates the same named window.
+ *
+ * @returns The popup window, or null if the browser blocked it
+ */
+export function openPopupWindow(width: number, height: number): Window | null {
+  if (typeof window === 'undefined') {
+    return null;
+  }
+
+  const left = Math.max(0, Math.round(window.screenX + (window.outerWidth - width) / 2));
+  const top = Math.max(0, Math.round(window.screenY + (window.outerHeight - height) / 2));
+  const features = `popup=yes,location=no,toolbar=no,width=${width},height=${height},left=${left},top=${top}`;
+
+  const popup = window.open('', POPUP_WINDOW_TARGET, features);
+
+  // Some blockers hand back a window that is already closed
+  return popup && !popup.closed ? popup : null;
+}
+
+/**
+ * Whether the current window is the login popup
+ */
+export function isPopupWindow(): boolean {
+  return typeof window !== 'undefined' && window.name === POPUP_WINDOW_TARGET;
+}
@@ -0,0 +1,77 @@
+import { DEFAULT_REFRESH_RETRY } from '../constants';
+import type { RefreshRetryOptions } from '../types';
+
+/**
+ * OAuth error codes meaning the session cannot be renewed without the user
+ */
+const FATAL_REFRESH_ERRORS = [
+  'invalid_grant',
+  'login_required',
+  'interaction_required',
+  'consent_required',
+  'account_selection_required',
+  'invalid_client',
+  'unauthorized_client',
+];
+
+/**
+ * Whether a refresh failure is definitive, as opposed to transient (network
+ * failures, timeouts, server errors). The error and its causes are checked
+ * for an OAuth `error` code, or an ID token that failed a claim or signature
+ * check.
+ */
+export function isFatalRefreshError(error: unknown): boolean {
+  let current: unknown = error;
+
+  while (current && typeof current === 'object') {
+    const code = (current as { error?: unknown }).error;
+    if (typeof code === 'string' && FATAL_REFRESH_ERRORS.includes(code)) {
+      return true;
+    }
+    // Signing keys that could not be fetched may be available on the next attempt
+    if (
+      (current as { code?: unknown }).code === 'TOKEN_VALIDATION_ERROR' &&
+      (current as { reason?: unknown }).reason !== 'keys'
+    ) {
+      return true;
+    }
+    current = (current as { cause?: unknown }).cause;
+  }
+
+  return false;
+}
+
+/**
+ * Delay before the given retry (0-based), doubling up to the maximum
+ */
+export function getRetryDelay(attempt: number, options: RefreshRetryOptions = {}): number {
+  const baseDelay = options.baseDelay ?? DEFAULT_REFRESH_RETRY.BASE_DELAY_MS;
+  const maxDelay = options.maxDelay ?? DEFAULT_REFRESH_RETRY.MAX_DELAY_MS;
+  return Math.min(baseDelay * 2 ** attempt, maxDelay);
+}
+
+/**
+ * Runs a task, retrying transient failures with exponential backoff.
+ * Fatal failures and the last transient failure are rethrown.
+ */
+export async function retryWithBackoff<T>(
+  task: () => Promise<T>,
+  options: RefreshRetryOptions & {
+    /** Called with each failure that will be retried */
+    onRetry?: (error: unknown, attempt: number) => void;
+  } = {}
+): Promise<T> {
+  const retries = options.retries ?? DEFAULT_REFRESH_RETRY.RETRIES;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await task();
+    } catch (error) {
+      if (attempt >= retries || isFatalRefreshError(error)) {
+        throw error;
+      }
+      options.onRetry?.(error, attempt);
+      await new Promise((resolve) => setTimeout(resolve, getRetryDelay(attempt, options)));
+    }
+  }
+}
@@ -0,0 +1,206 @@
+import type { ScalekitAuthMethods } from '../plugin';
+import type { NotAuthenticatedError } from '../types';
+import { getCurrentPath } from './auth-params';
+
+/**
+ * The parts of the auth instance used to authenticate HTTP requests
+ */
+export type AuthFetchClient = Pick<ScalekitAuthMethods, 'getAccessToken' | 'loginWithRedirect'>;
+
+/**
+ * Options shared by the fetch wrapper and the HTTP client adapters
+ */
+export interface RequestAuthOptions {
+  /**
+   * Origins that receive the `Authorization` header.
+   * Defaults to the current page's origin when `allowedUrls` is not set either.
+   */
+  allowedOrigins?: string[];
+
+  /**
+   * URLs that receive the `Authorization` header. Strings match requests to
+   * the same origin whose path equals the string's path or lies below it,
+   * e.g. `https://api.example.com/v1` matches `/v1` and `/v1/users` but not
+   * `/v10`; regular expressions are tested against the full request URL.
+   */
+  allowedUrls?: Array<string | RegExp>;
+
+  /** Audience to request the access token for, keyed by origin */
+  audienceByOrigin?: Record<string, string>;
+
+  /**
+   * Called when the user is signed out or the session has expired and a 401
+   * cannot be retried. Other refresh failures, such as network errors, reject
+   * the request instead. The request waits for the returned promise and
+   * rejects if it fails.
+   * Defaults to `loginWithRedirect({ returnTo: <current path> })`.
+   */
+  onUnauthenticated?: (error: NotAuthenticatedError) => void | Promise<void>;
+}
+
+/**
+ * Token target for a request that should be authenticated
+ */
+export interface RequestAuthTarget {
+  /** Audience to request the access token for, if configured for the origin */
+  audience?: string;
+}
+
+/**
+ * Resolves a URL relative to the current page
+ */
+export function resolveUrl(url: string): URL | null {
+  try {
+    const base = typeof window !== 'undefined' ? window.location.href : undefined;
+    return new URL(url, base);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Resolves the origin of a URL relative to the current page
+ */
+export function resolveOrigin(url: string): string | null {
+  return resolveUrl(url)?.origin ?? null;
+}
+
+/**
+ * Whether a `WWW-Authenticate` header signals an invalid or expired access token
+ */
+export function isInvalidTokenChallenge(challenge: unknown): boolean {
+  return typeof challenge === 'string' && /invalid_token/i.test(challenge);
+}
+
+/**
+ * Extracts the token from an `Authorization: Bearer <token>` header value
+ */
+export function parseBearerToken(authorization: unknown): string | null {
+  if (typeof authorization !== 'string') {
+    return null;
+  }
+  const match = /^Bearer\s+(.+)$/i.exec(authorization);
+  return match ? match[1] : null;
+}
+
+/**
+ * Whether an error is a NotAuthenticatedError.
+ * Checked by code so it also holds across separately bundled entry points.
+ */
+export function isNotAuthenticatedError(error: unknown): error is NotAuthenticatedError {
+  return (
+    error instanceof Error && (error as { code?: unknown }).code === 'NOT_AUTHENTICATED_ERROR'
+  );
+}
+
+/**
+ * Creates a predicate for an `allowedUrls` entry
+ */
+function createUrlPattern(pattern: string | RegExp): (url: URL) => boolean {
+  if (typeof pattern !== 'string') {
+    return (url) => {
+      // Global and sticky expressions resume from lastIndex; always test the whole URL
+      pattern.lastIndex = 0;
+      return pattern.test(url.href);
+    };
+  }
+
+  const allowed = resolveUrl(pattern);
+  if (!allowed) {
+    return () => false;
+  }
+
+  // Match on path segment boundaries so `/api` does not cover `/api-internal`
+  const basePath = allowed.pathname.endsWith('/') ? allowed.pathname : `${allowed.pathname}/`;
+  return (url) =>
+    url.origin === allowed.origin &&
+    (url.pathname === allowed.pathname || url.pathname.startsWith(basePath));
+}
+
+/**
+ * Creates a function deciding whether a URL gets the bearer token, and for which audience
+ */
+export function createRequestMatcher(
+  options: RequestAuthOptions
+): (url: string) => RequestAuthTarget | null {
+  const allowedUrls = (options.allowedUrls ?? []).map(createUrlPattern);
+
+  const defaultOrigins =
+    !options.allowedUrls && typeof window !== 'undefined' ? [window.location.origin] : [];
+  const allowedOrigins = (options.allowedOrigins ?? defaultOrigins)
+    .map(resolveOrigin)
+    .filter((origin): origin is string => origin !== null);
+
+  const audienceByOrigin = new Map<string, string>();
+  Object.entries(options.audienceByOrigin ?? {}).forEach(([origin, audience]) => {
+    const resolved = resolveOrigin(origin);
+    if (resolved) {
+      audienceByOrigin.set(resolved, audience);
+    }
+  });
+
+  return (url: string) => {
+    const resolved = resolveUrl(url);
+    if (!resolved) {
+      return null;
+    }
+
+    const allowed =
+      allowedOrigins.includes(resolved.origin) || allowedUrls.some((matches) => matches(resolved));
+
+    return allowed ? { audience: audienceByOrigin.get(resolved.origin) } : null;
+  };
+}
+
+/**
+ * Creates a refresher shared by all requests of a client.
+ *
+ * When several requests fail with the same stale token, only the first
+ * triggers a refresh; the others wait for it. Requests that fail with a token
+ * that has already been replaced are retried with the current one.
+ */
+export function createTokenRefresher(
+  auth: AuthFetchClient
+): (failedToken: string, audience?: string) => Promise<string> {
+  const pending = new Map<string, Promise<string>>();
+
+  return async (failedToken, audience) => {
+    const key = audience ?? '';
+    const inFlight = pending.get(key);
+    if (inFlight) {
+      return inFlight;
+    }
+
+    const current = await auth.getAccessToken({ audience });
+    if (current !== failedToken) {
+      return current;
+    }
+
+    let refresh = pending.get(key);
+    if (!refresh) {
+      refresh = auth.getAccessToken({ audience, forceRefresh: true }).finally(() => {
+        pending.delete(key);
+      });
+      pending.set(key, refresh);
+    }
+    return refresh;
+  };
+}
+
+/**
+ * Creates the handler invoked when a 401 cannot be recovered by refreshing.
+ * Failures of the callback or of the login redirect reject the returned promise.
+ */
+export function createUnauthenticatedHandler(
+  auth: AuthFetchClient,
+  onUnauthenticated?: RequestAuthOptions['onUnauthenticated']
+): (error: NotAuthenticatedError) => Promise<void> {
+  return async (error) => {
+    if (onUnauthenticated) {
+      await onUnauthenticated(error);
+      return;
+    }
+
+    await auth.loginWithRedirect({ returnTo: getCurrentPath() });
+  };
+}
@@ -0,0 +1,155 @@
+import { STORAGE_KEY_PREFIX } from '../constants';
+import type { StorageType } from '../types';
+
+/**
+ * Prefixes of the BroadcastChannel, storage key and lock used for cross-tab
+ * sync; the sync scope is appended so apps on one origin stay apart
+ */
+const SYNC_CHANNEL_PREFIX = `${STORAGE_KEY_PREFIX}.sync`;
+const LEADER_LOCK_PREFIX = `${STORAGE_KEY_PREFIX}.leader`;
+
+/**
+ * Signal exchanged between tabs sharing a session. It carries no tokens;
+ * receiving tabs reread the session from their own store.
+ */
+export type SessionSyncMessage =
+  | { type: 'LOGIN_COMPLETED' }
+  | { type: 'TOKEN_REFRESHED' }
+  | { type: 'LOGOUT_COMPLETED' }
+  | { type: 'RENEW_REQUESTED' };
+
+/**
+ * Options for cross-tab session sync
+ */
+export interface SessionSyncOptions {
+  /** Identifies the session, e.g. `${clientId}:${issuer}`; only tabs with the same scope sync */
+  scope: string;
+
+  /** Storage type of the session; enables the storage-event fallback for localStorage */
+  storageType: StorageType;
+
+  /**
+   * Whether tabs read the session from a store they share. Only then is a
+   * leader elected; otherwise every tab renews its own session.
+   */
+  sharedSession: boolean;
+
+  /** Called with every message posted by another tab */
+  onMessage: (message: SessionSyncMessage) => void;
+}
+
+/**
+ * Handle for cross-tab session sync
+ */
+export interface SessionSync {
+  /** Posts a message to all other tabs */
+  broadcast: (message: SessionSyncMessage) => void;
+
+  /** Whether this tab is the elected leader responsible for silent renewal */
+  isLeader: () => boolean;
+
+  /** Stops listening and releases leadership */
+  close: () => void;
+}
+
+/**
+ * Elects a single leader tab using the Web Locks API.
+ * The lock is held until `release` is called or the tab closes, at which
+ * point the next waiting tab takes over. Without Web Locks, or when tabs do
+ * not share a session, every tab leads.
+ */
+function electLeader(
+  lockName: string,
+  sharedSession: boolean
+): { isLeader: () => boolean; release: () => void } {
+  const locks = typeof navigator !== 'undefined' ? navigator.locks : undefined;
+
+  if (!locks || !sharedSession) {
+    return { isLeader: () => true, release: () => {} };
+  }
+
+  let leader = false;
+  let release = () => {};
+  const released = new Promise<void>((resolve) => {
+    release = resolve;
+  });
+
+  locks
+    .request(lockName, () => {
+      leader = true;
+      return released;
+    })
+    .catch(() => {
+      // Lock request aborted; this tab stays a follower
+    })
+    .finally(() => {
+      leader = false;
+    });
+
+  return { isLeader: () => leader, release };
+}
+
+/**
+ * Creates a cross-tab session sync over BroadcastChannel, falling back to
+ * `storage` events when the session lives in localStorage.
+ */
+export function createSessionSync(options: SessionSyncOptions): SessionSync {
+  const { scope, storageType, sharedSession, onMessage } = options;
+  const channelName = `${SYNC_CHANNEL_PREFIX}.${scope}`;
+  const lockName = `${LEADER_LOCK_PREFIX}.${scope}`;
+
+  // Without a way to reach other tabs, this tab manages its own session
+  const standalone: SessionSync = { broadcast: () => {}, isLeader: () => true, close: () => {} };
+
+  if (typeof window === 'undefined') {
+    return standalone;
+  }
+
+  if (typeof BroadcastChannel !== 'undefined') {
+    const leader = electLeader(lockName, sharedSession);
+    const channel = new BroadcastChannel(channelName);
+    channel.onmessage = (event: MessageEvent<SessionSyncMessage>) => {
+      onMessage(event.data);
+    };
+
+    return {
+      broadcast: (message) => channel.postMessage(message),
+      isLeader: leader.isLeader,
+      close: () => {
+        channel.close();
+        leader.release();
+      },
+    };
+  }
+
+  if (storageType === 'localStorage') {
+    const leader = electLeader(lockName, sharedSession);
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key !== channelName || !event.newValue) {
+        return;
+      }
+      try {
+        onMessage((JSON.parse(event.newValue) as { message: SessionSyncMessage }).message);
+      } catch {
+        // Ignore malformed entries
+      }
+    };
+    window.addEventListener('storage', handleStorage);
+
+    return {
+      broadcast: (message) => {
+        // The nonce makes repeated messages distinct so a storage event always fires
+        const entry = JSON.stringify({ message, nonce: `${Date.now()}.${Math.random()}` });
+        window.localStorage.setItem(channelName, entry);
+        window.localStorage.removeItem(channelName);
+      },
+      isLeader: leader.isLeader,
+      close: () => {
+        window.removeEventListener('storage', handleStorage);
+        leader.release();
+      },
+    };
+  }
+
+  return standalone;
+}
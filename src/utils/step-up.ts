@@ -0,0 +1,31 @@
+import type { ScalekitUser, StepUpRequirement } from '../types';
+
+/**
+ * Whether the user's session is recent and strong enough for a requirement
+ */
+export function isStepUpSatisfied(
+  user: ScalekitUser | null | undefined,
+  requirement: StepUpRequirement
+): boolean {
+  if (!user) {
+    return false;
+  }
+
+  const { maxAge, acr } = requirement;
+
+  if (maxAge !== undefined) {
+    const { authTime } = user.metadata;
+    if (!authTime || Date.now() / 1000 - authTime > maxAge) {
+      return false;
+    }
+  }
+
+  if (acr !== undefined) {
+    const accepted = Array.isArray(acr) ? acr : [acr];
+    if (accepted.length > 0 && !(user.metadata.acr && accepted.includes(user.metadata.acr))) {
+      return false;
+    }
+  }
+
+  return true;
+}
@@ -0,0 +1,228 @@
+import { STORAGE_KEY_PREFIX } from '../constants';
+import type { StorageAdapter } from '../types';
+import { openDatabase, promisifyRequest } from './indexed-db';
+
+/**
+ * Longest cookie value written before a value is split across cookies,
+ * leaving room for the name and attributes within the 4 KB cookie limit
+ */
+const COOKIE_CHUNK_SIZE = 3000;
+
+/**
+ * Separates a cookie name from its chunk index. Never produced by
+ * encodeCookieName, so chunk cookies cannot collide with keys.
+ */
+const COOKIE_CHUNK_SEPARATOR = '__';
+
+/**
+ * Adapters created by createCookieStorage
+ */
+const cookieAdapters = new WeakSet<StorageAdapter>();
+
+/**
+ * Options for createIndexedDbStorage
+ */
+export interface IndexedDbStorageOptions {
+  /** Database name. Defaults to "scalekit_auth.storage" */
+  databaseName?: string;
+
+  /** Object store name. Defaults to "entries" */
+  storeName?: string;
+}
+
+/**
+ * Options for createCookieStorage
+ */
+export interface CookieStorageOptions {
+  /**
+   * Cookie path. Required so the cookies are not sent with every request to
+   * the domain by default; use the narrowest path covering the app's routes
+   */
+  path: string;
+
+  /** Cookie domain. Defaults to the current host */
+  domain?: string;
+
+  /** Whether cookies are only sent over HTTPS. Defaults to true on HTTPS pages */
+  secure?: boolean;
+
+  /** SameSite attribute. Defaults to "Lax" */
+  sameSite?: 'Strict' | 'Lax' | 'None';
+
+  /** Lifetime in seconds. Defaults to a session cookie */
+  maxAge?: number;
+}
+
+/**
+ * Creates a StorageAdapter backed by an IndexedDB object store.
+ *
+ * The database is opened on first use and kept open until another tab
+ * upgrades or deletes it, then reopened on next use. Unlike Web Storage,
+ * IndexedDB is also available in workers and is not limited to a few
+ * megabytes per origin.
+ */
+export function createIndexedDbStorage(options: IndexedDbStorageOptions = {}): StorageAdapter {
+  const { databaseName = `${STORAGE_KEY_PREFIX}.storage`, storeName = 'entries' } = options;
+  let database: Promise<IDBDatabase> | null = null;
+
+  async function objectStore(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    if (!database) {
+      database = openDatabase(databaseName, storeName).then(
+        (opened) => {
+          const reset = () => {
+            opened.close();
+            database = null;
+          };
+          // Closing lets version changes elsewhere proceed instead of blocking
+          opened.onversionchange = reset;
+          opened.onclose = reset;
+          return opened;
+        },
+        (error) => {
+          database = null;
+          throw error;
+        }
+      );
+    }
+    return (await database).transaction(storeName, mode).objectStore(storeName);
+  }
+
+  return {
+    get: async (key) => {
+      const value = await promisifyRequest((await objectStore('readonly')).get(key));
+      return typeof value === 'string' ? value : null;
+    },
+    set: async (key, value) => {
+      await promisifyRequest((await objectStore('readwrite')).put(value, key));
+    },
+    remove: async (key) => {
+      await promisifyRequest((await objectStore('readwrite')).delete(key));
+    },
+    keys: async () => {
+      const keys = await promisifyRequest((await objectStore('readonly')).getAllKeys());
+      return keys.filter((key): key is string => typeof key === 'string');
+    },
+  };
+}
+
+/**
+ * Encodes a storage key as a cookie name
+ */
+function encodeCookieName(key: string): string {
+  return encodeURIComponent(key).replace(/[()_]/g, (char) => {
+    return `%${char.charCodeAt(0).toString(16).toUpperCase()}`;
+  });
+}
+
+/**
+ * Reads all cookies of the document, keyed by their raw names
+ */
+function readCookies(): Map<string, string> {
+  const cookies = new Map<string, string>();
+  if (typeof document === 'undefined' || !document.cookie) {
+    return cookies;
+  }
+
+  for (const cookie of document.cookie.split('; ')) {
+    const separator = cookie.indexOf('=');
+    if (separator > 0) {
+      cookies.set(cookie.slice(0, separator), cookie.slice(separator + 1));
+    }
+  }
+  return cookies;
+}
+
+/**
+ * Creates a StorageAdapter backed by cookies.
+ *
+ * Values longer than a single cookie allows are split across several
+ * cookies. Cookies are sent with every request to the cookie's domain and
+ * path, so the session is only stored in cookies with `encryptStorage`.
+ */
+export function createCookieStorage(options: CookieStorageOptions): StorageAdapter {
+  const {
+    path,
+    domain,
+    secure = typeof location !== 'undefined' && location.protocol === 'https:',
+    sameSite = 'Lax',
+    maxAge,
+  } = options;
+
+  function writeCookie(name: string, value: string, expiry?: string) {
+    const attributes = [`path=${path}`, `SameSite=${sameSite}`];
+    if (domain) {
+      attributes.push(`domain=${domain}`);
+    }
+    if (secure) {
+      attributes.push('Secure');
+    }
+    if (expiry) {
+      attributes.push(expiry);
+    }
+    document.cookie = `${name}=${value}; ${attributes.join('; ')}`;
+  }
+
+  const lifetime = maxAge === undefined ? undefined : `max-age=${maxAge}`;
+
+  function chunkNames(name: string, cookies: Map<string, string>): string[] {
+    const names: string[] = [];
+    for (let index = 1; cookies.has(`${name}${COOKIE_CHUNK_SEPARATOR}${index}`); index += 1) {
+      names.push(`${name}${COOKIE_CHUNK_SEPARATOR}${index}`);
+    }
+    return names;
+  }
+
+  function remove(key: string) {
+    const name = encodeCookieName(key);
+    const cookies = readCookies();
+    [name, ...chunkNames(name, cookies)].forEach((cookieName) => {
+      writeCookie(cookieName, '', 'expires=Thu, 01 Jan 1970 00:00:00 GMT');
+    });
+  }
+
+  const adapter: StorageAdapter = {
+    get: async (key) => {
+      const name = encodeCookieName(key);
+      const cookies = readCookies();
+      const first = cookies.get(name);
+      if (first === undefined) {
+        return null;
+      }
+      const chunks = chunkNames(name, cookies).map((chunkName) => cookies.get(chunkName));
+      return decodeURIComponent([first, ...chunks].join(''));
+    },
+    set: async (key, value) => {
+      remove(key);
+      const name = encodeCookieName(key);
+      const encoded = encodeURIComponent(value);
+
+      // Chunks are joined before decoding, so they may split escape sequences
+      for (let offset = 0; offset === 0 || offset < encoded.length; offset += COOKIE_CHUNK_SIZE) {
+        const index = offset / COOKIE_CHUNK_SIZE;
+        const chunkName = index === 0 ? name : `${name}${COOKIE_CHUNK_SEPARATOR}${index}`;
+        writeCookie(chunkName, encoded.slice(offset, offset + COOKIE_CHUNK_SIZE), lifetime);
+      }
+    },
+    remove: async (key) => remove(key),
+    keys: async () => {
+      return Array.from(readCookies().keys())
+        .filter((name) => !name.includes(COOKIE_CHUNK_SEPARATOR))
+        .map((name) => {
+          try {
+            return decodeURIComponent(name);
+          } catch {
+            return name;
+          }
+        });
+    },
+  };
+  cookieAdapters.add(adapter);
+  return adapter;
+}
+
+/**
+ * Whether a storage adapter was created by createCookieStorage
+ */
+export function isCookieStorage(storage: StorageAdapter): boolean {
+  return cookieAdapters.has(storage);
+}
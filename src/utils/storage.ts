@@ -1,5 +1,21 @@
-import { WebStorageStateStore } from 'oidc-client-ts';
-import type { StorageType } from '../types';
+import { WebStorageStateStore, type StateStore } from 'oidc-client-ts';
+import { STORAGE_KEY_PREFIX } from '../constants';
+import type { StorageAdapter, StorageType } from '../types';
+import { createEncryptedStorage } from './encrypted-storage';
+
+/**
+ * Key prefixes of the user store and the transient sign-in state store
+ */
+const USER_STORE_PREFIX = STORAGE_KEY_PREFIX;
+const STATE_STORE_PREFIX = 'oidc.';
+
+/**
+ * Options for the oidc-client-ts stores
+ */
+export interface StoreOptions {
+  /** Whether values are encrypted at rest (see createEncryptedStorage) */
+  encrypt?: boolean;
+}
 
 /**
  * In-memory storage implementation for environments without Web Storage
@@ -76,11 +92,119 @@ export function getStorage(storageType: StorageType): Storage {
 }
 
 /**
- * Creates a WebStorageStateStore for oidc-client-ts
+ * Wraps a synchronous Storage as a StorageAdapter
+ */
+export function createWebStorageAdapter(storage: Storage): StorageAdapter {
+  return {
+    get: async (key) => storage.getItem(key),
+    set: async (key, value) => storage.setItem(key, value),
+    remove: async (key) => storage.removeItem(key),
+    keys: async () => {
+      const keys: string[] = [];
+      for (let index = 0; index < storage.length; index += 1) {
+        const key = storage.key(index);
+        if (key !== null) {
+          keys.push(key);
+        }
+      }
+      return keys;
+    },
+  };
+}
+
+/**
+ * oidc-client-ts store backed by a StorageAdapter, with the same key layout
+ * as WebStorageStateStore
+ */
+class AdapterStateStore implements StateStore {
+  constructor(
+    private readonly adapter: StorageAdapter,
+    private readonly prefix: string
+  ) {}
+
+  async set(key: string, value: string): Promise<void> {
+    await this.adapter.set(this.prefix + key, value);
+  }
+
+  async get(key: string): Promise<string | null> {
+    return this.adapter.get(this.prefix + key);
+  }
+
+  async remove(key: string): Promise<string | null> {
+    const value = await this.adapter.get(this.prefix + key);
+    await this.adapter.remove(this.prefix + key);
+    return value;
+  }
+
+  async getAllKeys(): Promise<string[]> {
+    const keys = await this.adapter.keys();
+    return keys
+      .filter((key) => key.startsWith(this.prefix))
+      .map((key) => key.slice(this.prefix.length));
+  }
+}
+
+/**
+ * Whether a storage option is a custom adapter rather than a built-in type
+ */
+export function isStorageAdapter(storage: StorageType | StorageAdapter): storage is StorageAdapter {
+  return typeof storage === 'object' && storage !== null;
+}
+
+/**
+ * Resolves a storage option to a StorageAdapter
+ */
+function toStorageAdapter(storage: StorageType | StorageAdapter): StorageAdapter {
+  return isStorageAdapter(storage) ? storage : createWebStorageAdapter(getStorage(storage));
+}
+
+/**
+ * Creates an oidc-client-ts store for the given key prefix
+ */
+function createStore(
+  storage: StorageType | StorageAdapter,
+  prefix: string,
+  options: StoreOptions
+): StateStore {
+  if (!options.encrypt && !isStorageAdapter(storage)) {
+    return new WebStorageStateStore({ store: getStorage(storage), prefix });
+  }
+
+  const adapter = toStorageAdapter(storage);
+  return new AdapterStateStore(options.encrypt ? createEncryptedStorage(adapter) : adapter, prefix);
+}
+
+/**
+ * Creates the store holding the signed-in user for oidc-client-ts
+ */
+export function createUserStore(
+  storage: StorageType | StorageAdapter,
+  options: StoreOptions = {}
+): StateStore {
+  return createStore(storage, USER_STORE_PREFIX, options);
+}
+
+/**
+ * Creates the store holding transient sign-in state for oidc-client-ts
+ */
+export function createStateStore(
+  storage: StorageType | StorageAdapter,
+  options: StoreOptions = {}
+): StateStore {
+  return createStore(storage, STATE_STORE_PREFIX, options);
+}
+
+/**
+ * Encrypts user and sign-in state entries written in plaintext before
+ * encryption was enabled. Other entries, such as cached audience tokens,
+ * are read synchronously and stay as they are.
  */
-export function createStateStore(storageType: StorageType): WebStorageStateStore {
-  const storage = getStorage(storageType);
-  return new WebStorageStateStore({ store: storage });
+export async function encryptPlaintextEntries(
+  storage: StorageType | StorageAdapter
+): Promise<number> {
+  return createEncryptedStorage(toStorageAdapter(storage)).migrate(
+    (key) => key.startsWith(`${USER_STORE_PREFIX}user:`) || key.startsWith(STATE_STORE_PREFIX)
+  );
 }
 
 /**
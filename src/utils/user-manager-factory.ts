@@ -1,11 +1,12 @@
+import { UserManager, UserManagerSettings } from 'oidc-client-ts';
+import type { OidcProviderMetadata, ScalekitAuthConfig, StorageAdapter } from '../types';
 import {
-  UserManager,
-  UserManagerSettings,
-  WebStorageStateStore,
-} from 'oidc-client-ts';
-import type { ScalekitAuthConfig } from '../types';
-import { DEFAULT_SCOPES, RESPONSE_TYPE, STORAGE_KEY_PREFIX } from '../constants';
-import { getStorage, createStateStore } from './storage';
+  DEFAULT_SCOPES,
+  RESPONSE_TYPE,
+  TOKEN_EXPIRY_BUFFER_SECONDS,
+} from '../constants';
+import { createStateStore, createUserStore, isStorageAdapter } from './storage';
+import { isCookieStorage } from './storage-adapters';
 import { ConfigurationError } from '../types/errors';
 
 /**
@@ -19,7 +20,7 @@ function normalizeUrl(url: string): string {
  * Builds Scalekit OIDC endpoints from the environment URL
  * These follow the standard Scalekit endpoint patterns.
  */
-function buildScalekitEndpoints(environmentUrl: string) {
+export function buildScalekitEndpoints(environmentUrl: string): OidcProviderMetadata {
   const baseUrl = normalizeUrl(environmentUrl);
 
   return {
@@ -34,10 +35,19 @@ function buildScalekitEndpoints(environmentUrl: string) {
   };
 }
 
+/**
+ * Whether a custom storage adapter has all StorageAdapter methods
+ */
+function isCompleteAdapter(storage: StorageAdapter): boolean {
+  return (['get', 'set', 'remove', 'keys'] as const).every(
+    (method) => typeof storage[method] === 'function'
+  );
+}
+
 /**
  * Validates the SDK configuration
  */
-function validateConfig(config: ScalekitAuthConfig): void {
+export function validateConfig(config: ScalekitAuthConfig): void {
   if (!config.environmentUrl) {
     throw new ConfigurationError('environmentUrl is required');
   }
@@ -74,24 +84,50 @@ function validateConfig(config: ScalekitAuthConfig): void {
       );
     }
   }
+
+  // Custom storage adapters must implement the whole interface
+  for (const [option, storage] of Object.entries({
+    storage: config.storage,
+    stateStorage: config.stateStorage,
+  })) {
+    if (storage && isStorageAdapter(storage) && !isCompleteAdapter(storage)) {
+      throw new ConfigurationError(`${option} adapter must implement get, set, remove and keys`);
+    }
+  }
+
+  // Cookies travel with requests, so a session kept in them must be encrypted
+  const { storage } = config;
+  if (storage && isStorageAdapter(storage) && isCookieStorage(storage) && !config.encryptStorage) {
+    throw new ConfigurationError('Cookie storage for the session requires encryptStorage');
+  }
+
+  // Encryption at rest needs WebCrypto, which is only exposed in secure contexts
+  if (config.encryptStorage && (typeof crypto === 'undefined' || !crypto.subtle)) {
+    throw new ConfigurationError('encryptStorage requires WebCrypto (a secure context)');
+  }
+
+  // Without IndexedDB the key cannot outlive the page, and neither could the session
+  if (config.encryptStorage && typeof indexedDB === 'undefined') {
+    throw new ConfigurationError('encryptStorage requires IndexedDB to keep the encryption key');
+  }
 }
 
 /**
  * Maps ScalekitAuthConfig to oidc-client-ts UserManagerSettings
  */
-function mapConfigToSettings(config: ScalekitAuthConfig): UserManagerSettings {
-  const storageType = config.storage ?? 'sessionStorage';
-  const storage = getStorage(storageType);
-  const stateStore = createStateStore(storageType);
-
-  // Build explicit OIDC endpoints to avoid CORS issues with auto-discovery
-  const endpoints = buildScalekitEndpoints(config.environmentUrl);
+function mapConfigToSettings(
+  config: ScalekitAuthConfig,
+  endpoints: OidcProviderMetadata
+): UserManagerSettings {
+  const storage = config.storage ?? 'sessionStorage';
+  const storeOptions = { encrypt: config.encryptStorage ?? false };
 
   return {
     // Authority (issuer)
     authority: endpoints.issuer,
     client_id: config.clientId,
     redirect_uri: config.redirectUri,
+    silent_redirect_uri: config.silentRedirectUri ?? config.redirectUri,
 
     // PKCE settings (enabled by default)
     response_type: RESPONSE_TYPE,
@@ -103,30 +139,32 @@ function mapConfigToSettings(config: ScalekitAuthConfig): UserManagerSettings {
     post_logout_redirect_uri: config.postLogoutRedirectUri,
 
     // Token management
-    automaticSilentRenew: config.automaticSilentRenew ?? true,
+    // Silent renewal is driven by the plugin so concurrent refreshes can be
+    // coordinated; oidc-client-ts only raises the accessTokenExpiring event.
+    automaticSilentRenew: false,
+    accessTokenExpiringNotificationTimeInSeconds: TOKEN_EXPIRY_BUFFER_SECONDS,
 
     // Storage
-    userStore: new WebStorageStateStore({
-      store: storage,
-      prefix: STORAGE_KEY_PREFIX,
-    }),
-    stateStore,
-
-    // Explicit OIDC metadata to avoid fetching .well-known/openid-configuration
-    // This prevents CORS errors when the discovery endpoint is not accessible
+    userStore: createUserStore(storage, storeOptions),
+    stateStore: createStateStore(config.stateStorage ?? storage, storeOptions),
+
+    // Explicit OIDC metadata so oidc-client-ts never fetches
+    // .well-known/openid-configuration itself; opt-in discovery is resolved
+    // by the plugin beforehand, with a fallback for CORS errors
     metadata: {
       issuer: endpoints.issuer,
       authorization_endpoint: endpoints.authorization_endpoint,
       token_endpoint: endpoints.token_endpoint,
       userinfo_endpoint: endpoints.userinfo_endpoint,
       end_session_endpoint: endpoints.end_session_endpoint,
+      jwks_uri: endpoints.jwks_uri,
       revocation_endpoint: endpoints.revocation_endpoint,
       introspection_endpoint: endpoints.introspection_endpoint,
     },
     metadataUrl: undefined, // Explicitly disable discovery
 
-    // JWKS URI for token validation (oidc-client-ts will fetch this)
-    // Note: If this also has CORS issues, tokens are validated server-side anyway
+    // oidc-client-ts does not verify signatures; with `validateIdToken` the
+    // plugin checks ID tokens against the JWKS (see id-token-validator)
     signingKeys: undefined,
 
     // Load user info from userinfo endpoint
@@ -135,17 +173,25 @@ function mapConfigToSettings(config: ScalekitAuthConfig): UserManagerSettings {
     // Disable monitoring session (not needed for most SPAs)
     monitorSession: false,
 
-    // Filter OIDC protocol claims from user profile
-    filterProtocolClaims: true,
+    // Filter OIDC protocol claims from user profile, keeping auth_time, acr
+    // and amr for step-up checks
+    filterProtocolClaims: ['nbf', 'jti', 'nonce', 'azp', 'at_hash'],
   };
 }
 
 /**
- * Creates a configured UserManager instance
+ * Creates a configured UserManager instance. Uses the static Scalekit
+ * endpoints unless resolved metadata is passed in.
  */
-export function createUserManager(config: ScalekitAuthConfig): UserManager {
+export function createUserManager(
+  config: ScalekitAuthConfig,
+  metadata?: OidcProviderMetadata
+): UserManager {
   validateConfig(config);
-  const settings = mapConfigToSettings(config);
+  const settings = mapConfigToSettings(
+    config,
+    metadata ?? buildScalekitEndpoints(config.environmentUrl)
+  );
   return new UserManager(settings);
 }
 
@@ -0,0 +1,191 @@
+import axios, { AxiosError, AxiosHeaders, type InternalAxiosRequestConfig } from 'axios';
+import { ofetch } from 'ofetch';
+import { describe, expect, it, vi } from 'vitest';
+import { installAxiosAuth } from '../src/adapters/axios';
+import { createOfetchAuthOptions } from '../src/adapters/ofetch';
+
+const API = 'https://api.example.com';
+
+/**
+ * An auth client whose forced refreshes issue numbered tokens
+ */
+function createClient() {
+  let current = 'token-1';
+  let refreshes = 0;
+  return {
+    getAccessToken: vi.fn(async (options: { forceRefresh?: boolean } = {}) => {
+      if (options.forceRefresh) {
+        await Promise.resolve();
+        refreshes += 1;
+        current = `token-${refreshes + 1}`;
+      }
+      return current;
+    }),
+    loginWithRedirect: vi.fn(async () => {}),
+    get refreshes() {
+      return refreshes;
+    },
+  };
+}
+
+/**
+ * An API accepting only the given token, recording the Authorization header
+ * of every request it receives
+ */
+function createApi(acceptedToken: string | null, challenge = 'Bearer error="invalid_token"') {
+  const authorizations: Array<string | null> = [];
+  return {
+    authorizations,
+    respond(authorization: string | null): { status: number; headers: Record<string, string> } {
+      authorizations.push(authorization);
+      return authorization === `Bearer ${acceptedToken}`
+        ? { status: 200, headers: {} }
+        : { status: 401, headers: { 'www-authenticate': challenge } };
+    },
+  };
+}
+
+/**
+ * Creates an axios instance answered by the fake API instead of the network
+ */
+function createAxios(api: ReturnType<typeof createApi>) {
+  return axios.create({
+    baseURL: API,
+    adapter: async (config: InternalAxiosRequestConfig) => {
+      const authorization = AxiosHeaders.from(config.headers).get('Authorization');
+      const { status, headers } = api.respond(
+        typeof authorization === 'string' ? authorization : null
+      );
+      const response = { data: {}, status, statusText: '', headers, config, request: {} };
+      if (status !== 200) {
+        throw new AxiosError('Request failed', AxiosError.ERR_BAD_REQUEST, config, {}, response);
+      }
+      return response;
+    },
+  });
+}
+
+/**
+ * Creates an ofetch instance answered by the fake API instead of the network
+ */
+function createOfetch(api: ReturnType<typeof createApi>, auth: ReturnType<typeof createClient>) {
+  return ofetch.create(
+    { baseURL: API, ...createOfetchAuthOptions(auth, { allowedOrigins: [API] }) },
+    {
+      fetch: async (input, init) => {
+        const { status, headers } = api.respond(new Headers(init?.headers).get('Authorization'));
+        return new Response(status === 200 ? '{}' : null, {
+          status,
+          headers: { 'content-type': 'application/json', ...headers },
+        });
+      },
+    }
+  );
+}
+
+describe('installAxiosAuth', () => {
+  it('attaches the token to allowed URLs only', async () => {
+    const auth = createClient();
+    const api = createApi('token-1');
+    const instance = createAxios(api);
+    installAxiosAuth(instance, auth, { allowedUrls: [`${API}/v1`] });
+
+    await instance.get('/v1/users');
+    await instance.get('/v10/users').catch(() => null);
+
+    expect(api.authorizations).toEqual(['Bearer token-1', null]);
+  });
+
+  it('refreshes once for concurrent 401s and replays each request', async () => {
+    const auth = createClient();
+    const api = createApi('token-2');
+    const instance = createAxios(api);
+    installAxiosAuth(instance, auth, { allowedOrigins: [API] });
+
+    const responses = await Promise.all([instance.get('/a'), instance.get('/b')]);
+
+    expect(responses.map((response) => response.status)).toEqual([200, 200]);
+    expect(auth.refreshes).toBe(1);
+    expect(api.authorizations).toEqual([
+      'Bearer token-1',
+      'Bearer token-1',
+      'Bearer token-2',
+      'Bearer token-2',
+    ]);
+  });
+
+  it('replays a request only once', async () => {
+    const auth = createClient();
+    const api = createApi(null);
+    const instance = createAxios(api);
+    installAxiosAuth(instance, auth, { allowedOrigins: [API] });
+
+    await expect(instance.get('/a')).rejects.toMatchObject({ response: { status: 401 } });
+
+    expect(auth.refreshes).toBe(1);
+    expect(api.authorizations).toHaveLength(2);
+  });
+
+  it('passes through 401s without an invalid_token challenge', async () => {
+    const auth = createClient();
+    const api = createApi(null, 'Bearer realm="api"');
+    const instance = createAxios(api);
+    installAxiosAuth(instance, auth, { allowedOrigins: [API] });
+
+    await expect(instance.get('/a')).rejects.toMatchObject({ response: { status: 401 } });
+
+    expect(auth.refreshes).toBe(0);
+    expect(api.authorizations).toHaveLength(1);
+  });
+});
+
+describe('createOfetchAuthOptions', () => {
+  it('attaches the token to allowed URLs only', async () => {
+    const auth = createClient();
+    const api = createApi('token-1');
+    const $fetch = createOfetch(api, auth);
+
+    await $fetch('/users');
+    await $fetch('https://other.example.com/users').catch(() => null);
+
+    expect(api.authorizations).toEqual(['Bearer token-1', null]);
+  });
+
+  it('refreshes once for concurrent 401s and replays each request', async () => {
+    const auth = createClient();
+    const api = createApi('token-2');
+    const $fetch = createOfetch(api, auth);
+
+    await expect(Promise.all([$fetch('/a'), $fetch('/b')])).resolves.toEqual([{}, {}]);
+
+    expect(auth.refreshes).toBe(1);
+    expect(api.authorizations).toEqual([
+      'Bearer token-1',
+      'Bearer token-1',
+      'Bearer token-2',
+      'Bearer token-2',
+    ]);
+  });
+
+  it('replays a request only once', async () => {
+    const auth = createClient();
+    const api = createApi(null);
+    const $fetch = createOfetch(api, auth);
+
+    await expect($fetch('/a')).rejects.toMatchObject({ status: 401 });
+
+    expect(auth.refreshes).toBe(1);
+    expect(api.authorizations).toHaveLength(2);
+  });
+
+  it('passes through 401s without an invalid_token challenge', async () => {
+    const auth = createClient();
+    const api = createApi(null, 'Bearer realm="api"');
+    const $fetch = createOfetch(api, auth);
+
+    await expect($fetch('/a')).rejects.toMatchObject({ status: 401 });
+
+    expect(auth.refreshes).toBe(0);
+    expect(api.authorizations).toHaveLength(1);
+  });
+});
@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { getAudienceTokenKey } from '../src/utils/audience-token';
+
+describe('getAudienceTokenKey', () => {
+  it('keeps audience and resource requests for the same value apart', () => {
+    const value = 'https://api.example.com';
+
+    expect(getAudienceTokenKey({ audience: value })).not.toBe(
+      getAudienceTokenKey({ resource: value })
+    );
+    expect(getAudienceTokenKey({ audience: value, resource: value })).not.toBe(
+      getAudienceTokenKey({ audience: value })
+    );
+  });
+
+  it('ignores the order of scopes', () => {
+    expect(getAudienceTokenKey({ audience: 'api', scopes: ['write', 'read'] })).toBe(
+      getAudienceTokenKey({ audience: 'api', scopes: ['read', 'write'] })
+    );
+    expect(getAudienceTokenKey({ audience: 'api', scopes: ['read'] })).not.toBe(
+      getAudienceTokenKey({ audience: 'api' })
+    );
+  });
+});
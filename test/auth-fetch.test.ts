@@ -0,0 +1,61 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createAuthFetch } from '../src/authFetch';
+import { NotAuthenticatedError, TokenRefreshError } from '../src/types';
+
+const API = 'https://api.example.com';
+
+/**
+ * A 401 asking the client to refresh its access token
+ */
+function invalidToken(): Response {
+  return new Response(null, {
+    status: 401,
+    headers: { 'WWW-Authenticate': 'Bearer error="invalid_token"' },
+  });
+}
+
+/**
+ * An auth client whose forced refresh fails with the given error
+ */
+function createClient(refreshError: Error) {
+  return {
+    getAccessToken: vi.fn(async (options: { forceRefresh?: boolean } = {}) => {
+      if (options.forceRefresh) {
+        throw refreshError;
+      }
+      return 'stale';
+    }),
+    loginWithRedirect: vi.fn(async () => {}),
+  };
+}
+
+describe('createAuthFetch', () => {
+  it('hands a signed-out user to onUnauthenticated and returns the 401', async () => {
+    const auth = createClient(new NotAuthenticatedError('Session expired'));
+    const onUnauthenticated = vi.fn();
+    const authFetch = createAuthFetch(auth, {
+      allowedOrigins: [API],
+      fetch: async () => invalidToken(),
+      onUnauthenticated,
+    });
+
+    const response = await authFetch(`${API}/invoices`);
+
+    expect(response.status).toBe(401);
+    expect(onUnauthenticated).toHaveBeenCalledWith(expect.any(NotAuthenticatedError));
+  });
+
+  it('rejects on a transient refresh failure without signing in again', async () => {
+    const auth = createClient(new TokenRefreshError('Failed to get access token'));
+    const onUnauthenticated = vi.fn();
+    const authFetch = createAuthFetch(auth, {
+      allowedOrigins: [API],
+      fetch: async () => invalidToken(),
+      onUnauthenticated,
+    });
+
+    await expect(authFetch(`${API}/invoices`)).rejects.toBeInstanceOf(TokenRefreshError);
+    expect(onUnauthenticated).not.toHaveBeenCalled();
+    expect(auth.loginWithRedirect).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { createApp } from 'vue';
+import { createMockScalekitAuth } from '../src/testing/mock-auth';
+import { SCALEKIT_AUTH_KEY } from '../src/constants';
+import { registerAuth, resolveAuth } from '../src/utils/auth-instance';
+
+/**
+ * Creates an app providing and registering its own auth instance
+ */
+function createAuthApp() {
+  const app = createApp({ render: () => null });
+  const auth = createMockScalekitAuth();
+  app.provide(SCALEKIT_AUTH_KEY, auth);
+  registerAuth(app, auth);
+  app.mount(document.createElement('div'));
+  return { app, auth };
+}
+
+describe('resolveAuth', () => {
+  it('falls back to the only installed instance and resolves per app otherwise', () => {
+    const first = createAuthApp();
+    expect(resolveAuth()).toBe(first.auth);
+
+    const second = createAuthApp();
+    expect(resolveAuth()).toBeNull();
+    expect(first.app.runWithContext(() => resolveAuth())).toBe(first.auth);
+    expect(second.app.runWithContext(() => resolveAuth())).toBe(second.auth);
+
+    second.app.unmount();
+    expect(resolveAuth()).toBe(first.auth);
+
+    first.app.unmount();
+    expect(resolveAuth()).toBeNull();
+  });
+});
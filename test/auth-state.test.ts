@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import {
+  authReducer,
+  initialAuthState,
+  type AuthAction,
+  type AuthState,
+  type ScalekitUser,
+} from '../src/types';
+
+const user: ScalekitUser = {
+  profile: { sub: 'usr_test', email: 'test@example.com' },
+  metadata: {},
+  idToken: 'id-token',
+  accessToken: 'access-token',
+  scopes: ['openid'],
+};
+
+const error = new Error('failed');
+
+const actions: AuthAction[] = [
+  { type: 'INITIALIZING' },
+  { type: 'INITIALIZED', user },
+  { type: 'INITIALIZED', user: null },
+  { type: 'LOGIN_STARTED' },
+  { type: 'LOGIN_COMPLETED', user },
+  { type: 'LOGIN_CANCELLED', user },
+  { type: 'LOGIN_CANCELLED', user: null },
+  { type: 'LOGOUT_COMPLETED' },
+  { type: 'TOKEN_REFRESHED', user },
+  { type: 'ORGANIZATION_SWITCHED', user },
+  { type: 'REFRESH_STARTED' },
+  { type: 'REFRESH_FAILED', error, willRetry: true },
+  { type: 'REFRESH_FAILED', error, willRetry: false },
+  { type: 'SESSION_EXPIRED', error },
+  { type: 'ERROR', error },
+];
+
+/**
+ * Every state reachable from the initial state in up to two actions
+ */
+function reachableStates(): AuthState[] {
+  const states = [initialAuthState as AuthState];
+  for (let depth = 0; depth < 2; depth++) {
+    for (const state of [...states]) {
+      states.push(...actions.map((action) => authReducer(state, action)));
+    }
+  }
+  return states;
+}
+
+describe('authReducer', () => {
+  it('keeps the state invariants after any sequence of actions', () => {
+    for (const state of reachableStates()) {
+      for (const action of actions) {
+        const next = authReducer(state, action);
+
+        expect(next.isAuthenticated).toBe(next.user !== null);
+        if (next.isAuthenticated) {
+          expect(next.isLoading).toBe(false);
+          expect(next.error).toBeNull();
+        }
+        if (next.isRefreshing) {
+          expect(next.isAuthenticated).toBe(true);
+        }
+        if (next.error) {
+          expect(next.isAuthenticated).toBe(false);
+          expect(next.isLoading).toBe(false);
+        }
+      }
+    }
+  });
+
+  it('keeps the user signed in while a failed refresh is retried', () => {
+    const signedIn = authReducer(initialAuthState, { type: 'INITIALIZED', user });
+    const refreshing = authReducer(signedIn, { type: 'REFRESH_STARTED' });
+
+    const retrying = authReducer(refreshing, { type: 'REFRESH_FAILED', error, willRetry: true });
+    expect(retrying).toMatchObject({ isAuthenticated: true, isRefreshing: true, lastError: error });
+
+    const failed = authReducer(retrying, { type: 'REFRESH_FAILED', error, willRetry: false });
+    expect(failed).toMatchObject({ isAuthenticated: true, isRefreshing: false, lastError: error });
+  });
+
+  it('ignores refresh progress without a session', () => {
+    const signedOut = authReducer(initialAuthState, { type: 'INITIALIZED', user: null });
+
+    expect(authReducer(signedOut, { type: 'REFRESH_STARTED' })).toBe(signedOut);
+    expect(authReducer(signedOut, { type: 'REFRESH_FAILED', error, willRetry: true })).toBe(
+      signedOut
+    );
+  });
+
+  it('marks a session that could not be renewed as expired', () => {
+    const signedIn = authReducer(initialAuthState, { type: 'INITIALIZED', user });
+
+    expect(authReducer(signedIn, { type: 'SESSION_EXPIRED', error })).toMatchObject({
+      isAuthenticated: false,
+      user: null,
+      sessionExpired: true,
+      lastError: error,
+    });
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { defineComponent, nextTick, ref } from 'vue';
+import { mountWithAuth } from '../src/testing/mount';
+
+describe('auth directives', () => {
+  it('hides and shows the element, keeping the display set by the template', async () => {
+    const display = ref('flex');
+    const component = defineComponent({
+      setup: () => ({ display }),
+      template: `<nav v-auth :style="{ display }">Account</nav>`,
+    });
+    const { wrapper, auth } = mountWithAuth(component, { auth: { isAuthenticated: false } });
+    const nav = wrapper.get('nav').element as HTMLElement;
+
+    expect(nav.style.display).toBe('none');
+
+    display.value = 'grid';
+    await nextTick();
+    expect(nav.style.display).toBe('none');
+
+    auth.signIn();
+    await nextTick();
+    expect(nav.style.display).toBe('grid');
+
+    auth.signOut();
+    await nextTick();
+    expect(nav.style.display).toBe('none');
+  });
+
+  it('disables the element without undoing the template disabling it', async () => {
+    const busy = ref(false);
+    const component = defineComponent({
+      setup: () => ({ busy }),
+      template: `<button v-can.disable="'invoices:write'" :disabled="busy">Save</button>`,
+    });
+    const { wrapper, auth } = mountWithAuth(component, { auth: { permissions: [] } });
+    const button = wrapper.get('button').element as HTMLButtonElement;
+
+    expect(button.disabled).toBe(true);
+    expect(button.getAttribute('aria-disabled')).toBe('true');
+
+    auth.signIn({ metadata: { permissions: ['invoices:write'] } });
+    await nextTick();
+    expect(button.disabled).toBe(false);
+
+    busy.value = true;
+    await nextTick();
+    expect(button.disabled).toBe(true);
+  });
+
+  it('checks roles from the directive value', async () => {
+    const component = defineComponent({
+      template: `<a v-role="['admin', 'owner']">Admin</a>`,
+    });
+    const { wrapper } = mountWithAuth(component, { auth: { roles: ['owner'] } });
+
+    expect((wrapper.get('a').element as HTMLElement).style.display).toBe('');
+  });
+});
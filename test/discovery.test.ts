@@ -0,0 +1,67 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createFakeOidcServer } from '../src/testing/fake-oidc-server';
+import { discoverProviderMetadata, getStaticProviderMetadata } from '../src/utils/discovery';
+
+const server = createFakeOidcServer({ issuer: 'https://tenant.scalekit.test' });
+const config = {
+  environmentUrl: server.issuer,
+  clientId: 'test-client',
+  redirectUri: 'http://localhost:3000/callback',
+};
+const metadata = { authorization_endpoint: 'https://auth.example.com/authorize' };
+
+describe('discoverProviderMetadata', () => {
+  beforeEach(() => {
+    window.localStorage.clear();
+    server.requests.splice(0);
+  });
+
+  it('uses the static endpoints without a request by default', async () => {
+    const resolved = await discoverProviderMetadata(config, {
+      storage: window.localStorage,
+      fetch: server.fetch,
+    });
+
+    expect(resolved).toEqual(getStaticProviderMetadata(config));
+    expect(server.requests).toHaveLength(0);
+  });
+
+  it('applies overrides to the static endpoints', () => {
+    const resolved = getStaticProviderMetadata({ ...config, discovery: { metadata } });
+
+    expect(resolved.authorization_endpoint).toBe(metadata.authorization_endpoint);
+    expect(resolved.token_endpoint).toBe(`${server.issuer}/oauth/token`);
+  });
+
+  it('discovers and caches the document, applying overrides on top', async () => {
+    const options = { storage: window.localStorage, fetch: server.fetch };
+    const autoConfig = { ...config, discovery: { mode: 'auto' as const, metadata } };
+
+    const resolved = await discoverProviderMetadata(autoConfig, options);
+    const again = await discoverProviderMetadata(autoConfig, options);
+
+    expect(resolved.jwks_uri).toBe(`${server.issuer}/keys`);
+    expect(resolved.authorization_endpoint).toBe(metadata.authorization_endpoint);
+    expect(again).toEqual(resolved);
+    expect(server.requests).toHaveLength(1);
+
+    const withoutOverrides = await discoverProviderMetadata(
+      { ...config, discovery: 'auto' },
+      options
+    );
+    expect(withoutOverrides.authorization_endpoint).toBe(`${server.issuer}/oauth/authorize`);
+  });
+
+  it('falls back to the static endpoints when discovery fails', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const failingFetch = async () => new Response(null, { status: 500 });
+
+    const resolved = await discoverProviderMetadata(
+      { ...config, discovery: 'auto' },
+      { storage: window.localStorage, fetch: failingFetch }
+    );
+
+    expect(resolved).toEqual(getStaticProviderMetadata(config));
+    expect(window.localStorage.length).toBe(0);
+  });
+});
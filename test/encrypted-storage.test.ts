@@ -0,0 +1,107 @@
+import 'fake-indexeddb/auto';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createEncryptedStorage } from '../src/utils/encrypted-storage';
+import { createWebStorageAdapter, encryptPlaintextEntries } from '../src/utils/storage';
+
+describe('createEncryptedStorage', () => {
+  const backend = createWebStorageAdapter(window.localStorage);
+
+  beforeEach(() => {
+    window.localStorage.clear();
+  });
+
+  it('stores ciphertext and reads the plaintext back', async () => {
+    const storage = createEncryptedStorage(backend);
+
+    await storage.set('session', '{"refresh_token":"secret"}');
+
+    const raw = window.localStorage.getItem('session');
+    expect(raw).toMatch(/^enc\.v1\./);
+    expect(raw).not.toContain('secret');
+    await expect(storage.get('session')).resolves.toBe('{"refresh_token":"secret"}');
+    await expect(storage.get('missing')).resolves.toBeNull();
+  });
+
+  it('uses a fresh IV for every write', async () => {
+    const storage = createEncryptedStorage(backend);
+
+    await storage.set('a', 'same');
+    await storage.set('b', 'same');
+
+    expect(window.localStorage.getItem('a')).not.toBe(window.localStorage.getItem('b'));
+  });
+
+  it('drops values copied to another key', async () => {
+    const storage = createEncryptedStorage(backend);
+    await storage.set('original', 'value');
+    window.localStorage.setItem('copy', window.localStorage.getItem('original')!);
+
+    await expect(storage.get('copy')).resolves.toBeNull();
+    expect(window.localStorage.getItem('copy')).toBeNull();
+  });
+
+  it('encrypts plaintext values in place when they are read', async () => {
+    const storage = createEncryptedStorage(backend);
+    window.localStorage.setItem('legacy', 'plain');
+
+    await expect(storage.get('legacy')).resolves.toBe('plain');
+
+    expect(window.localStorage.getItem('legacy')).toMatch(/^enc\.v1\./);
+    await expect(storage.get('legacy')).resolves.toBe('plain');
+  });
+
+  it('migrates the plaintext entries passing the filter', async () => {
+    const storage = createEncryptedStorage(backend);
+    window.localStorage.setItem('keep.a', 'a');
+    window.localStorage.setItem('keep.b', 'b');
+    window.localStorage.setItem('other', 'c');
+
+    await expect(storage.migrate((key) => key.startsWith('keep.'))).resolves.toBe(2);
+
+    expect(window.localStorage.getItem('keep.a')).toMatch(/^enc\.v1\./);
+    expect(window.localStorage.getItem('keep.b')).toMatch(/^enc\.v1\./);
+    expect(window.localStorage.getItem('other')).toBe('c');
+    await expect(storage.get('keep.a')).resolves.toBe('a');
+    await expect(storage.migrate((key) => key.startsWith('keep.'))).resolves.toBe(0);
+  });
+
+  describe('when the key cannot be persisted', () => {
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('leaves plaintext entries as they are', async () => {
+      vi.spyOn(indexedDB, 'open').mockImplementation(() => {
+        throw new Error('IndexedDB is disabled');
+      });
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const storage = createEncryptedStorage(backend, { databaseName: 'unavailable' });
+      window.localStorage.setItem('legacy', 'plain');
+
+      await expect(storage.migrate(() => true)).resolves.toBe(0);
+      await expect(storage.get('legacy')).resolves.toBe('plain');
+
+      expect(window.localStorage.getItem('legacy')).toBe('plain');
+    });
+  });
+});
+
+describe('encryptPlaintextEntries', () => {
+  beforeEach(() => {
+    window.localStorage.clear();
+  });
+
+  it('encrypts stored sessions and sign-in states only', async () => {
+    window.localStorage.setItem('scalekit_authuser:https://scalekit.test:client', '{}');
+    window.localStorage.setItem('oidc.abc123', '{}');
+    window.localStorage.setItem('unrelated', 'value');
+
+    await expect(encryptPlaintextEntries('localStorage')).resolves.toBe(2);
+
+    expect(window.localStorage.getItem('scalekit_authuser:https://scalekit.test:client')).toMatch(
+      /^enc\.v1\./
+    );
+    expect(window.localStorage.getItem('oidc.abc123')).toMatch(/^enc\.v1\./);
+    expect(window.localStorage.getItem('unrelated')).toBe('value');
+  });
+});
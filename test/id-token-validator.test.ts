@@ -0,0 +1,159 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createFakeOidcServer, type FakeOidcServer } from '../src/testing/fake-oidc-server';
+import { createIdTokenValidator } from '../src/utils/id-token-validator';
+import { TokenValidationError } from '../src/types';
+
+const CLIENT_ID = 'test-client';
+const REDIRECT_URI = 'http://localhost:3000/callback';
+
+/**
+ * Runs an authorization code grant against the server and returns the ID token
+ */
+async function signIn(server: FakeOidcServer, nonce?: string): Promise<string> {
+  const authorizeUrl = new URL(`${server.issuer}/oauth/authorize`);
+  authorizeUrl.search = new URLSearchParams({
+    client_id: CLIENT_ID,
+    redirect_uri: REDIRECT_URI,
+    scope: 'openid',
+    ...(nonce && { nonce }),
+  }).toString();
+  const code = new URL(server.authorize(authorizeUrl.href)).searchParams.get('code')!;
+
+  const response = await server.fetch(`${server.issuer}/oauth/token`, {
+    method: 'POST',
+    body: new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      client_id: CLIENT_ID,
+      redirect_uri: REDIRECT_URI,
+    }),
+  });
+  return ((await response.json()) as { id_token: string }).id_token;
+}
+
+/**
+ * Resolves with the reason the token was rejected
+ */
+async function rejectionReason(promise: Promise<unknown>): Promise<string> {
+  const error = await promise.then(
+    () => null,
+    (reason: unknown) => reason
+  );
+  expect(error).toBeInstanceOf(TokenValidationError);
+  return (error as TokenValidationError).reason;
+}
+
+describe('createIdTokenValidator', () => {
+  const server = createFakeOidcServer();
+
+  function createValidator(overrides: { issuer?: string; clientId?: string } = {}) {
+    return createIdTokenValidator({
+      issuer: server.issuer,
+      clientId: CLIENT_ID,
+      jwksUri: `${server.issuer}/keys`,
+      fetch: server.fetch,
+      ...overrides,
+    });
+  }
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('accepts a token signed by the issuer with the sign-in nonce', async () => {
+    const validator = createValidator();
+    const nonce = validator.createNonce();
+    const idToken = await signIn(server, nonce);
+
+    const claims = await validator.validate(idToken, { checkNonce: true, nonce });
+
+    expect(claims).toMatchObject({ sub: 'usr_test', iss: server.issuer, aud: CLIENT_ID, nonce });
+  });
+
+  it('creates a distinct nonce for every sign-in', () => {
+    const validator = createValidator();
+
+    expect(validator.createNonce()).not.toBe(validator.createNonce());
+    expect(validator.createNonce()).toMatch(/^[A-Za-z0-9_-]{43}$/);
+  });
+
+  it('rejects a nonce from another sign-in', async () => {
+    const validator = createValidator();
+    const idToken = await signIn(server, validator.createNonce());
+
+    await expect(
+      rejectionReason(validator.validate(idToken, { checkNonce: true, nonce: 'other' }))
+    ).resolves.toBe('nonce');
+  });
+
+  it('rejects a missing nonce when one is required', async () => {
+    const validator = createValidator();
+    const nonce = validator.createNonce();
+
+    await expect(
+      rejectionReason(validator.validate(await signIn(server), { checkNonce: true, nonce }))
+    ).resolves.toBe('nonce');
+    await expect(
+      rejectionReason(validator.validate(await signIn(server, nonce), { checkNonce: true }))
+    ).resolves.toBe('nonce');
+  });
+
+  it('skips the nonce for refreshed tokens', async () => {
+    const validator = createValidator();
+    const idToken = await signIn(server);
+
+    await expect(validator.validate(idToken, { checkNonce: false })).resolves.toMatchObject({
+      sub: 'usr_test',
+    });
+  });
+
+  it('rejects a tampered token', async () => {
+    const validator = createValidator();
+    const [header, payload, signature] = (await signIn(server)).split('.');
+    const claims = JSON.parse(atob(payload.replace(/-/g, '+').replace(/_/g, '/')));
+    const forged = btoa(JSON.stringify({ ...claims, sub: 'usr_admin' }))
+      .replace(/\+/g, '-')
+      .replace(/\//g, '_')
+      .replace(/=+$/, '');
+
+    await expect(
+      rejectionReason(validator.validate(`${header}.${forged}.${signature}`, { checkNonce: false }))
+    ).resolves.toBe('signature');
+  });
+
+  it('rejects tokens for another issuer or client', async () => {
+    const idToken = await signIn(server);
+
+    await expect(
+      rejectionReason(
+        createValidator({ issuer: 'https://other.test' }).validate(idToken, { checkNonce: false })
+      )
+    ).resolves.toBe('issuer');
+    await expect(
+      rejectionReason(
+        createValidator({ clientId: 'other-client' }).validate(idToken, { checkNonce: false })
+      )
+    ).resolves.toBe('audience');
+  });
+
+  it('rejects expired tokens', async () => {
+    const validator = createValidator();
+    const idToken = await signIn(server);
+    vi.spyOn(Date, 'now').mockReturnValue(Date.now() + 2 * 3600 * 1000);
+
+    await expect(rejectionReason(validator.validate(idToken, { checkNonce: false }))).resolves.toBe(
+      'expired'
+    );
+  });
+
+  it('rejects a missing or malformed token', async () => {
+    const validator = createValidator();
+
+    await expect(
+      rejectionReason(validator.validate(undefined, { checkNonce: false }))
+    ).resolves.toBe('malformed');
+    await expect(
+      rejectionReason(validator.validate('not-a-jwt', { checkNonce: false }))
+    ).resolves.toBe('malformed');
+  });
+});
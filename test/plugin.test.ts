@@ -0,0 +1,244 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createScalekitAuth } from '../src/plugin';
+import type { ScalekitAuthConfig } from '../src/types';
+import { createFakeOidcServer, type FakeOidcServer } from '../src/testing/fake-oidc-server';
+import {
+  RedirectingError,
+  TokenRefreshError,
+  TokenValidationError,
+  type LoginWithRedirectOptions,
+} from '../src/types';
+
+const CLIENT_ID = 'test-client';
+const REDIRECT_URI = `${window.location.origin}/callback`;
+
+describe('createScalekitAuth', () => {
+  let server: FakeOidcServer;
+  let uninstall: () => void;
+
+  function createAuth(overrides: Partial<ScalekitAuthConfig> = {}) {
+    return createScalekitAuth({
+      environmentUrl: server.issuer,
+      clientId: CLIENT_ID,
+      redirectUri: REDIRECT_URI,
+      validateIdToken: true,
+      automaticSilentRenew: false,
+      ...overrides,
+    });
+  }
+
+  /**
+   * Starts a redirect login and returns the authorize URL it navigated to
+   */
+  async function startLogin(
+    auth: ReturnType<typeof createAuth>,
+    options?: LoginWithRedirectOptions
+  ): Promise<URL> {
+    const redirect = server.nextRedirect();
+    void auth.loginWithRedirect(options);
+    return new URL(await redirect);
+  }
+
+  beforeEach(() => {
+    server = createFakeOidcServer({ clientId: CLIENT_ID, refreshIdTokens: false });
+    uninstall = server.install();
+    window.sessionStorage.clear();
+    window.localStorage.clear();
+    window.history.replaceState(null, '', '/');
+  });
+
+  afterEach(() => {
+    uninstall();
+    vi.restoreAllMocks();
+  });
+
+  it('signs in through the redirect callback with a validated ID token', async () => {
+    const auth = createAuth();
+    await auth.isReady();
+
+    const authorizeUrl = await startLogin(auth);
+    expect(authorizeUrl.searchParams.get('nonce')).toMatch(/^[A-Za-z0-9_-]{43}$/);
+
+    window.history.replaceState(null, '', server.authorize(authorizeUrl.href));
+    const { user } = await auth.handleRedirectCallback();
+
+    expect(user.profile.email).toBe('test@example.com');
+    expect(auth.state.isAuthenticated).toBe(true);
+    expect(window.location.search).toBe('');
+  });
+
+  it('rejects an ID token issued for another nonce', async () => {
+    const auth = createAuth();
+    await auth.isReady();
+
+    const authorizeUrl = await startLogin(auth);
+    authorizeUrl.searchParams.set('nonce', 'replayed');
+    window.history.replaceState(null, '', server.authorize(authorizeUrl.href));
+
+    const error = await auth.handleRedirectCallback().catch((reason: unknown) => reason);
+
+    expect(error).toBeInstanceOf(TokenValidationError);
+    expect((error as TokenValidationError).reason).toBe('nonce');
+    expect(auth.state.isAuthenticated).toBe(false);
+  });
+
+  it('satisfies step-up requirements right after login', async () => {
+    const auth = createAuth();
+    await auth.isReady();
+    window.history.replaceState(
+      null,
+      '',
+      server.authorize((await startLogin(auth, { acrValues: 'mfa' })).href)
+    );
+    const { user } = await auth.handleRedirectCallback();
+
+    expect(user.metadata.authTime).toBeCloseTo(Date.now() / 1000, -1);
+    expect(user.metadata.acr).toBe('mfa');
+    await expect(auth.requireRecentLogin({ maxAge: 300 })).resolves.toBe(true);
+    await expect(auth.requireRecentLogin({ acr: 'mfa' })).resolves.toBe(true);
+  });
+
+  it('continues a blocked popup login as a redirect', async () => {
+    const auth = createAuth();
+    await auth.isReady();
+    vi.spyOn(window, 'open').mockReturnValue(null);
+    const redirect = server.nextRedirect();
+
+    await expect(auth.loginWithPopup({ fallbackToRedirect: true })).rejects.toBeInstanceOf(
+      RedirectingError
+    );
+
+    expect(await redirect).toMatch(`${server.issuer}/oauth/authorize?`);
+    expect(auth.state.isLoading).toBe(true);
+  });
+
+  it('queues audience token requests and renewals that use the refresh token', async () => {
+    const auth = createAuth();
+    await auth.isReady();
+    window.history.replaceState(null, '', server.authorize((await startLogin(auth)).href));
+    await auth.handleRedirectCallback();
+
+    const [orders, billing] = await Promise.all([
+      auth.getAccessToken({ audience: 'orders' }),
+      auth.getAccessToken({ audience: 'billing' }),
+      auth.refreshToken(),
+    ]);
+
+    expect(orders).not.toBe(billing);
+    // The rotated refresh token stored last is still accepted
+    await expect(auth.refreshToken()).resolves.not.toBeNull();
+    expect(auth.state.isAuthenticated).toBe(true);
+  });
+
+  it('keeps the session when a refresh carries over the expired ID token', async () => {
+    const auth = createAuth();
+    await auth.isReady();
+    window.history.replaceState(null, '', server.authorize((await startLogin(auth)).href));
+    await auth.handleRedirectCallback();
+    const previousIdToken = (await auth.userManager!.getUser())!.id_token;
+
+    // Both the access token and the ID token of the sign-in have expired
+    const later = Date.now() + 2 * 3600 * 1000;
+    vi.spyOn(Date, 'now').mockReturnValue(later);
+
+    const user = await auth.refreshToken();
+
+    expect(user?.profile.email).toBe('test@example.com');
+    expect(auth.state.isAuthenticated).toBe(true);
+    expect((await auth.userManager!.getUser())!.id_token).toBe(previousIdToken);
+  });
+
+  it('keeps the session when the signing keys cannot be fetched during a refresh', async () => {
+    uninstall();
+    server = createFakeOidcServer({ clientId: CLIENT_ID });
+    uninstall = server.install();
+    const signedIn = createAuth();
+    await signedIn.isReady();
+    window.history.replaceState(null, '', server.authorize((await startLogin(signedIn)).href));
+    await signedIn.handleRedirectCallback();
+
+    // A reloaded page has no cached keys, and the JWKS request fails. The
+    // refresh happens later so it returns a different ID token.
+    const auth = createAuth();
+    await auth.isReady();
+    const later = Date.now() + 60 * 1000;
+    vi.spyOn(Date, 'now').mockReturnValue(later);
+    const serverFetch = globalThis.fetch;
+    vi.spyOn(globalThis, 'fetch').mockImplementation((input, init) =>
+      String(input instanceof Request ? input.url : input) === `${server.issuer}/keys`
+        ? Promise.reject(new TypeError('Failed to fetch'))
+        : serverFetch(input, init)
+    );
+
+    await expect(auth.refreshToken()).rejects.toBeInstanceOf(TokenRefreshError);
+
+    expect(auth.state.isAuthenticated).toBe(true);
+    expect(await auth.userManager!.getUser()).not.toBeNull();
+  });
+
+  it('renews through the leader tab when a follower needs a fresh token', async () => {
+    const uninstallLocks = installFakeLocks();
+    const leader = createAuth({ storage: 'localStorage' });
+    await leader.isReady();
+    window.history.replaceState(null, '', server.authorize((await startLogin(leader)).href));
+    await leader.handleRedirectCallback();
+    const follower = createAuth({ storage: 'localStorage' });
+    await follower.isReady();
+    const previousToken = await follower.getAccessToken();
+
+    try {
+      // Both tabs see the shared access token within the expiry buffer
+      const expiring = Date.now() + 3600 * 1000 - 30 * 1000;
+      vi.spyOn(Date, 'now').mockReturnValue(expiring);
+
+      const [fromFollower, fromLeader] = await Promise.all([
+        follower.getAccessToken(),
+        leader.getAccessToken(),
+      ]);
+
+      expect(fromFollower).not.toBe(previousToken);
+      expect(fromFollower).toBe(fromLeader);
+      expect(follower.state.isAuthenticated).toBe(true);
+      expect(leader.state.isAuthenticated).toBe(true);
+    } finally {
+      leader.close();
+      follower.close();
+      uninstallLocks();
+    }
+  });
+});
+
+/**
+ * Installs a minimal Web Locks API granting each lock to one holder at a time.
+ * Returns a function that removes it.
+ */
+function installFakeLocks(): () => void {
+  const held = new Set<string>();
+  const waiting = new Map<string, Array<() => void>>();
+
+  const locks = {
+    request(name: string, callback: () => Promise<unknown>): Promise<unknown> {
+      return new Promise((resolve, reject) => {
+        const grant = () => {
+          held.add(name);
+          callback()
+            .then(resolve, reject)
+            .finally(() => {
+              held.delete(name);
+              waiting.get(name)?.shift()?.();
+            });
+        };
+        if (held.has(name)) {
+          waiting.set(name, [...(waiting.get(name) ?? []), grant]);
+        } else {
+          grant();
+        }
+      });
+    },
+  };
+
+  Object.defineProperty(navigator, 'locks', { value: locks, configurable: true });
+  return () => {
+    delete (navigator as { locks?: unknown }).locks;
+  };
+}
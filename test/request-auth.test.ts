@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { createRequestMatcher } from '../src/utils/request-auth';
+
+describe('createRequestMatcher', () => {
+  it('defaults to the page origin', () => {
+    const matches = createRequestMatcher({});
+
+    expect(matches('/api/users')).toEqual({ audience: undefined });
+    expect(matches(`${window.location.origin}/api`)).not.toBeNull();
+    expect(matches('https://other.example.com/api')).toBeNull();
+  });
+
+  it('matches allowed origins exactly', () => {
+    const matches = createRequestMatcher({ allowedOrigins: ['https://api.example.com'] });
+
+    expect(matches('https://api.example.com/v1/users')).not.toBeNull();
+    expect(matches('https://api.example.com.evil.test/v1')).toBeNull();
+    expect(matches('http://api.example.com/v1')).toBeNull();
+    expect(matches('/local')).toBeNull();
+  });
+
+  it('matches allowed URLs by origin and path segment', () => {
+    const matches = createRequestMatcher({ allowedUrls: ['https://api.example.com/v1'] });
+
+    expect(matches('https://api.example.com/v1')).not.toBeNull();
+    expect(matches('https://api.example.com/v1/users?page=2')).not.toBeNull();
+    expect(matches('https://api.example.com/v10')).toBeNull();
+    expect(matches('https://api.example.com/v1-internal')).toBeNull();
+    expect(matches('https://api.example.com.evil.test/v1')).toBeNull();
+    expect(matches('https://evil.test/?next=https://api.example.com/v1')).toBeNull();
+  });
+
+  it('ignores allowed URLs that cannot be parsed', () => {
+    const matches = createRequestMatcher({ allowedUrls: ['http://[invalid'] });
+
+    expect(matches('http://[invalid/api')).toBeNull();
+    expect(matches('/api')).toBeNull();
+  });
+
+  it('tests global regular expressions against every URL', () => {
+    const matches = createRequestMatcher({ allowedUrls: [/^https:\/\/api\.example\.com\//g] });
+
+    expect(matches('https://api.example.com/a')).not.toBeNull();
+    expect(matches('https://api.example.com/b')).not.toBeNull();
+    expect(matches('https://other.example.com/a')).toBeNull();
+  });
+
+  it('resolves the audience by origin', () => {
+    const matches = createRequestMatcher({
+      allowedOrigins: ['https://api.example.com', 'https://files.example.com'],
+      audienceByOrigin: { 'https://api.example.com/ignored/path': 'https://api.example.com' },
+    });
+
+    expect(matches('https://api.example.com/v1')).toEqual({ audience: 'https://api.example.com' });
+    expect(matches('https://files.example.com/a')).toEqual({ audience: undefined });
+  });
+});
@@ -0,0 +1,103 @@
+import 'fake-indexeddb/auto';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { createCookieStorage, createIndexedDbStorage } from '../src/utils/storage-adapters';
+
+/**
+ * Names of the cookies currently set on the document
+ */
+function cookieNames(): string[] {
+  return document.cookie ? document.cookie.split('; ').map((cookie) => cookie.split('=')[0]) : [];
+}
+
+describe('createCookieStorage', () => {
+  beforeEach(async () => {
+    const storage = createCookieStorage({ path: '/' });
+    for (const key of await storage.keys()) {
+      await storage.remove(key);
+    }
+  });
+
+  it('stores short values in a single cookie', async () => {
+    const storage = createCookieStorage({ path: '/' });
+
+    await storage.set('session', 'value; with=separators');
+
+    expect(cookieNames()).toEqual(['session']);
+    await expect(storage.get('session')).resolves.toBe('value; with=separators');
+    await expect(storage.keys()).resolves.toEqual(['session']);
+  });
+
+  it('splits long values across chunk cookies and joins them back', async () => {
+    const storage = createCookieStorage({ path: '/' });
+    // Percent-encoded, this splits an escape sequence at the first chunk boundary
+    const value = `x${'é'.repeat(1000)}${'y'.repeat(2000)}`;
+
+    await storage.set('session', value);
+
+    expect(cookieNames().sort()).toEqual(['session', 'session__1', 'session__2']);
+    await expect(storage.get('session')).resolves.toBe(value);
+    await expect(storage.keys()).resolves.toEqual(['session']);
+  });
+
+  it('removes stale chunks when a value shrinks', async () => {
+    const storage = createCookieStorage({ path: '/' });
+    await storage.set('session', 'x'.repeat(7000));
+
+    await storage.set('session', 'short');
+
+    expect(cookieNames()).toEqual(['session']);
+    await expect(storage.get('session')).resolves.toBe('short');
+  });
+
+  it('removes every chunk of a value', async () => {
+    const storage = createCookieStorage({ path: '/' });
+    await storage.set('session', 'x'.repeat(7000));
+    await storage.set('other', 'kept');
+
+    await storage.remove('session');
+
+    expect(cookieNames()).toEqual(['other']);
+    await expect(storage.get('session')).resolves.toBeNull();
+  });
+
+  it('keeps keys that look like chunk names apart', async () => {
+    const storage = createCookieStorage({ path: '/' });
+    await storage.set('user__1', 'a');
+    await storage.set('user', 'b');
+
+    await expect(storage.get('user__1')).resolves.toBe('a');
+    await expect(storage.get('user')).resolves.toBe('b');
+    await expect(storage.keys()).resolves.toEqual(expect.arrayContaining(['user', 'user__1']));
+  });
+});
+
+describe('createIndexedDbStorage', () => {
+  it('stores, lists and removes values', async () => {
+    const storage = createIndexedDbStorage({ databaseName: 'adapter-test' });
+
+    await storage.set('a', '1');
+    await storage.set('b', '2');
+
+    await expect(storage.get('a')).resolves.toBe('1');
+    await expect(storage.keys()).resolves.toEqual(['a', 'b']);
+
+    await storage.remove('a');
+    await expect(storage.get('a')).resolves.toBeNull();
+  });
+
+  it('lets other connections delete the database and reopens it', async () => {
+    const storage = createIndexedDbStorage({ databaseName: 'adapter-delete-test' });
+    await storage.set('a', '1');
+
+    await new Promise<void>((resolve, reject) => {
+      const request = indexedDB.deleteDatabase('adapter-delete-test');
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+      request.onblocked = () => reject(new Error('Deletion blocked by an open connection'));
+    });
+
+    await expect(storage.get('a')).resolves.toBeNull();
+    await storage.set('b', '2');
+    await expect(storage.keys()).resolves.toEqual(['b']);
+  });
+});
@@ -0,0 +1,33 @@
+import 'fake-indexeddb/auto';
+import { describe, expect, it } from 'vitest';
+import { validateConfig } from '../src/utils/user-manager-factory';
+import { createCookieStorage } from '../src/utils/storage-adapters';
+import { ConfigurationError } from '../src/types';
+
+const config = {
+  environmentUrl: 'https://scalekit.test',
+  clientId: 'test-client',
+  redirectUri: 'http://localhost:3000/callback',
+};
+
+describe('validateConfig', () => {
+  it('accepts a minimal config', () => {
+    expect(() => validateConfig(config)).not.toThrow();
+  });
+
+  it('requires encryption for a session kept in cookies', () => {
+    const storage = createCookieStorage({ path: '/' });
+
+    expect(() => validateConfig({ ...config, storage })).toThrow(ConfigurationError);
+    expect(() => validateConfig({ ...config, storage, encryptStorage: true })).not.toThrow();
+    expect(() => validateConfig({ ...config, stateStorage: storage })).not.toThrow();
+  });
+
+  it('rejects incomplete storage adapters', () => {
+    const storage = { get: async () => null, set: async () => {} };
+
+    expect(() => validateConfig({ ...config, storage } as never)).toThrow(
+      'storage adapter must implement get, set, remove and keys'
+    );
+  });
+});
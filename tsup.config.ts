@@ -1,7 +1,12 @@
 import { defineConfig } from 'tsup';
 
 export default defineConfig({
-  entry: ['src/index.ts'],
+  entry: {
+    index: 'src/index.ts',
+    axios: 'src/adapters/axios.ts',
+    ofetch: 'src/adapters/ofetch.ts',
+    testing: 'src/testing/index.ts',
+  },
   format: ['esm', 'cjs'],
   dts: true,
   splitting: false,
@@ -9,5 +14,5 @@ export default defineConfig({
   clean: true,
   treeshake: true,
   minify: false,
-  external: ['vue', 'vue-router'],
+  external: ['vue', 'vue-router', 'axios', 'ofetch', '@vue/test-utils'],
 });